@@ -1,52 +1,410 @@
 import React, { useEffect, useRef, useState } from "react";
+import { FryParams, NoiseMode } from "./pipeline/fry";
+import { randomSeed } from "./pipeline/random";
+import {
+  AnimatedSource,
+  animationExportSize,
+  animationFrameParams,
+  exportAnimation,
+  loadAnimation,
+} from "./pipeline/animation";
+import { adjustmentLabel, ADJUSTMENTS, NumericParam } from "./pipeline/adjustments";
+import { analyzeFrame, FrameAnalysis, markClipping } from "./pipeline/analysis";
+import {
+  buildExportJob,
+  DEFAULT_EXPORT_SETTINGS,
+  encodeExport,
+  EXPORT_FORMATS,
+  ExportSettings,
+  formatFilename,
+  imageDataToCanvas,
+  renderExport,
+  resolveExportSize,
+} from "./pipeline/export";
+import { downloadBlob } from "./utils/download";
+import { canCopyImage, canShareFiles, copyImage, pastedImages, shareFile } from "./utils/share";
+import { createZip } from "./utils/zip";
+import { loadUserPresets, saveUserPresets } from "./utils/presetStorage";
+import { useHistory } from "./hooks/useHistory";
+import ExportOptions from "./components/ExportOptions";
+import PresetPanel from "./components/PresetPanel";
+import BatchPanel from "./components/BatchPanel";
+import AnimationBar from "./components/AnimationBar";
+import CompareBar, { CompareMode } from "./components/CompareBar";
+import ElementsPanel from "./components/ElementsPanel";
+import TextPanel from "./components/TextPanel";
+import TransformPanel from "./components/TransformPanel";
+import MaskPanel, { MaskTool } from "./components/MaskPanel";
+import StackPanel from "./components/StackPanel";
+import HistogramPanel from "./components/HistogramPanel";
+import RandomizePanel, { CandidateThumb } from "./components/RandomizePanel";
+import ZoomBar from "./components/ZoomBar";
+import { createTextBox, DEFAULT_MEME_TEXT, hitTextBox, MemeText, TEXT_BOX_GRAB, TextBox } from "./pipeline/captions";
+import { createElement, ElementType, EMOJI_CHOICES, hitTest, PlacedElement } from "./pipeline/elements";
+import { ImportedImage, importImage } from "./pipeline/importImage";
+import { DEFAULT_MASK, hasMask, MaskShape, Point, renderMask } from "./pipeline/mask";
+import { finishFrame, previewSize, renderFrame, RenderOptions } from "./pipeline/render";
+import { AnyCanvas, canvasToBlob, supportsCanvasFilter } from "./pipeline/canvas";
+import { DEFAULT_RECIPE, Recipe, recipeForNewImage } from "./pipeline/recipe";
+import { decodeRecipe, encodeRecipe } from "./pipeline/recipeLink";
+import { Candidate, measureFry, randomizeUntilFry, renderThumbnail, surpriseCandidates } from "./pipeline/randomize";
+import { BatchItem, createBatchItem, runBatch } from "./pipeline/batch";
+import {
+  applyPresetParams,
+  BUILTIN_PRESETS,
+  parsePresets,
+  Preset,
+  presetFileLabel,
+  presetFromState,
+  serializePresets,
+} from "./pipeline/presets";
+import { createRenderClient, RenderClient } from "./pipeline/renderClient";
+import {
+  createPass,
+  defaultStack,
+  duplicatePass,
+  isOverlayPass,
+  movePass,
+  PassType,
+  removePass,
+  StackPass,
+  stackOverlays,
+  updatePass,
+} from "./pipeline/stack";
+import {
+  applyTransform,
+  clampCrop,
+  CROP_ASPECTS,
+  cropFromCorners,
+  CropRect,
+  fitCropAspect,
+  flipTransform,
+  FULL_CROP,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  orientedSize,
+  rotateTransform,
+  transformedSize,
+} from "./pipeline/transform";
+import {
+  actualPixelsZoom,
+  clampView,
+  FIT_VIEW,
+  fitScale,
+  MAX_ZOOM,
+  panBy,
+  previewFrame,
+  Size,
+  View,
+  viewRect,
+  zoomAt,
+  zoomFrame,
+} from "./utils/viewport";
 
 /**
  * DeepFry Studio — Mobile-smooth + Stronger Burn + Bloom
  * - RAF render queue for smooth sliders on mobile
  * - Half-res while scrubbing, full-res on release
+ * - Renders in a worker (OffscreenCanvas) when available, inline otherwise
+ * - Exports re-run the pipeline at original (or chosen) resolution
+ * - Crunch: real JPEG generational loss (N re-encodes at low quality)
+ * - Presets are data: built-ins + user presets (localStorage, JSON import/export)
+ * - Undo/redo over whole recipes; one slider drag = one step
+ * - Recipe links: settings in the URL hash, restored on open
+ * - Batch: many files, one recipe, one ZIP
+ * - Animated GIF / video in, animated GIF out; grain changes per frame
+ * - Placed elements: flare eyes, emoji stickers, bulge/pinch — tap to place, drag to move
+ * - Impact meme text: top/bottom captions + draggable boxes, fried or crisp on top
+ * - Before/after: split slider, side by side, or press-and-hold for the original
+ * - Exact color mode: JS color pass instead of ctx.filter (automatic where the filter is ignored)
+ * - Zoom/pan (wheel, pinch, drag, 100%/fit); zoomed in, only the visible region is rendered
+ * - Import stage: EXIF orientation, crop with aspect presets, 90° turns and flips (part of the recipe)
+ * - Fry mask: brush/erase, radial and linear gradients, invert; the unfried picture shows elsewhere
+ * - Effect stack: reorder, toggle, duplicate and blend the fry passes (part of the recipe and presets)
  * - Brightness up to 400% (extra pixel gain beyond 200%)
  * - Exposure (EV) -2..+2
  * - Burn (0..100): warms highlights, adds edge burn, subtle bloom
+ * - Chromatic aberration (RGB shift with direction, lens fringe) and VHS damage (jitter, chroma bleed, tape noise)
+ * - Live histogram, clipping overlay and fry level of the frame on screen; randomize until fry ≥ a target
+ * - Surprise me: a seeded grid of random looks (locked sliders kept), tap one to apply
+ * - Paste an image with Ctrl/Cmd+V, copy the result as PNG, share it from mobile (downloads where unsupported)
  */
 
-type PresetType = "none" | "film" | "lofi" | "vhs" | "ultra";
-
 export default function DeepFryStudio() {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [decoded, setDecoded] = useState<ImageBitmap | null>(null); // upright, as loaded
+  const [sourceExif, setSourceExif] = useState<Uint8Array | null>(null); // for exports that keep metadata
+
+  // Animated source: the current frame is what `decoded` shows
+  const [animation, setAnimation] = useState<AnimatedSource | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  // Adjustments (the recipe), with undo/redo — a recipe link in the URL wins over defaults
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const history = useHistory<Recipe>(
+    () => decodeRecipe(window.location.hash, DEFAULT_RECIPE, [...BUILTIN_PRESETS, ...loadUserPresets()]) ?? DEFAULT_RECIPE
+  );
+  const setRecipe = history.set;
+  const { params, presetId, overlays, stack, elements, text, transform, mask } = history.state;
+  const setParams = (update: (p: FryParams) => FryParams) => setRecipe((r) => ({ ...r, params: update(r.params) }));
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [imageCopied, setImageCopied] = useState(false);
+  const [canShare] = useState(canShareFiles);
+  const allPresets = [...BUILTIN_PRESETS, ...userPresets];
+  const activePreset = allPresets.find((p) => p.id === presetId);
+  const { brightness, contrast, saturation, hue, exposureEV, burn, noise, noiseMode, seed, posterize, crunch, crunchQuality } =
+    params;
+  const { sharpenAmount, sharpenRadius, sharpenThreshold, edgeEnhance, emboss, blockSize, blockiness } = params;
+  const { chromaShift, chromaAngle, chromaLens, scanlineSpacing, vhsJitter, chromaBleed, tapeNoise } = params;
+  const setParam =
+    <K extends keyof FryParams>(key: K) =>
+    (v: FryParams[K]) =>
+      setParams((p) => ({ ...p, [key]: v }));
+
+  // Crop/rotate: `imageBitmap` is the decoded image with the recipe's transform, what everything downstream sees.
+  // While the crop box is up it shows the uncropped image and the draft crop.
   const [imageBitmap, setImageBitmap] = useState<ImageBitmap | null>(null);
+  const [cropDraft, setCropDraft] = useState<CropRect | null>(null);
+  const [cropAspect, setCropAspect] = useState(CROP_ASPECTS[0].id);
+  const cropDragRef = useRef<{ kind: "corner"; ax: number; ay: number } | { kind: "move"; dx: number; dy: number } | null>(null);
+  const cropping = cropDraft !== null;
+  // transformed copies are ours (decoded bitmaps belong to the loader): each is closed once it's off screen
+  const transformedRef = useRef(new WeakSet<ImageBitmap>());
+  useEffect(() => {
+    const t = cropping ? { ...transform, crop: null } : transform;
+    if (!decoded || isIdentityTransform(t)) {
+      setImageBitmap(decoded);
+      return;
+    }
+    let live = true;
+    createImageBitmap(applyTransform(decoded, t)).then((bmp) => {
+      if (!live) return bmp.close();
+      transformedRef.current.add(bmp);
+      setImageBitmap(bmp);
+    });
+    return () => {
+      live = false;
+    };
+  }, [decoded, transform, cropping]);
+  useEffect(() => {
+    if (!imageBitmap || !transformedRef.current.has(imageBitmap)) return;
+    return () => imageBitmap.close();
+  }, [imageBitmap]);
+  // for long async jobs to tell whether the picture they started on is still the one on screen
+  const imageBitmapRef = useRef(imageBitmap);
+  imageBitmapRef.current = imageBitmap;
+
+  // Placed elements: active tool, selection and the drag in progress
+  const [tool, setTool] = useState<ElementType | null>(null);
+  const [emoji, setEmoji] = useState(EMOJI_CHOICES[0]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const dragRef = useRef<{ kind: "element" | "text"; id: string; dx: number; dy: number } | null>(null);
+  const selected = elements.find((e) => e.id === selectedId) ?? null;
+  const selectedBox = text.boxes.find((b) => b.id === selectedId) ?? null;
+
+  // Fry mask painting — the tool, brush settings and the shape being drawn
+  const [maskTool, setMaskTool] = useState<MaskTool | null>(null);
+  const [brush, setBrush] = useState({ size: 0.06, hardness: 0.5 });
+  const [showMask, setShowMask] = useState(true);
+  const maskDragRef = useRef<Point | null>(null);
+  const maskViewRef = useRef<HTMLCanvasElement | null>(null);
+  const showMaskView = maskTool !== null && showMask;
+
+  // Before/after compare — the original is drawn from imageBitmap at outW×outH
+  const originalRef = useRef<HTMLCanvasElement | null>(null);
+  const [compare, setCompare] = useState<CompareMode>("off");
+  const [split, setSplit] = useState(0.5);
+  const [holding, setHolding] = useState(false);
+  const holdTimerRef = useRef<number | null>(null);
+  const splitDragRef = useRef(false);
+  const showOriginalOver = holding || compare === "split";
+
+  // Zoom and pan — the preview box is in CSS px, the view is relative to the source image
+  const boxRef = useRef<HTMLDivElement | null>(null);
+  const [previewBox, setPreviewBox] = useState<Size | null>(null);
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const panRef = useRef<{ x: number; y: number } | null>(null);
+  const pinchRef = useRef<{ dist: number; x: number; y: number } | null>(null);
+  const dpr = window.devicePixelRatio || 1;
+  const srcW = imageBitmap?.width ?? 0;
+  const srcH = imageBitmap?.height ?? 0;
+  const zoomScale = previewBox && srcW ? fitScale(previewBox, { width: srcW, height: srcH }) * view.zoom : 0; // CSS px per image px
+  const visible = previewBox && srcW ? viewRect(view, previewBox, { width: srcW, height: srcH }) : { x: 0, y: 0, w: 1, h: 1 };
 
-  // Adjustments
-  const [brightness, setBrightness] = useState<number>(120); // 50..400 %
-  const [contrast, setContrast] = useState<number>(120); // %
-  const [saturation, setSaturation] = useState<number>(140); // %
-  const [hue, setHue] = useState<number>(0); // deg
-  const [exposureEV, setExposureEV] = useState<number>(0); // -2..+2 (stops)
-  const [burn, setBurn] = useState<number>(35); // 0..100 (%)
-  const [noise, setNoise] = useState<number>(0.08); // 0..1
-  const [posterize, setPosterize] = useState<number>(0); // 0..8
-  const [preset, setPreset] = useState<PresetType>("none");
+  // JS color pass for the preview; exports always use it
+  const [exactColor, setExactColor] = useState(false);
 
   // Output sizing
   const [outW, setOutW] = useState<number>(0);
   const [outH, setOutH] = useState<number>(0);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exporting, setExporting] = useState(false);
+
+  // Batch queue
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
 
   // Perf state
   const isScrubbingRef = useRef(false);
   const rafRef = useRef<number | null>(null);
   const wantFullRef = useRef(false);
+  const frameTokenRef = useRef(0); // bumps per inline render so late async passes can tell they're stale
+
+  // Analysis of the frame on screen (the visible region when zoomed)
+  const lastFrameRef = useRef<ImageData | null>(null);
+  const clipRef = useRef<HTMLCanvasElement | null>(null);
+  const [analysis, setAnalysis] = useState<FrameAnalysis | null>(null);
+  const [showClipping, setShowClipping] = useState(false);
+  const [fryTarget, setFryTarget] = useState(60);
+  const [searching, setSearching] = useState(false);
+
+  // Surprise me — one seed per batch, thumbnails fill in as they render
+  const [locked, setLocked] = useState<NumericParam[]>([]);
+  const [surprise, setSurprise] = useState<{ seed: number; candidates: Candidate[] } | null>(null);
+  const [thumbs, setThumbs] = useState<(CandidateThumb | null)[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const surpriseTokenRef = useRef(0);
+  const thumbUrlsRef = useRef<string[]>([]);
+  useEffect(() => {
+    const urls = thumbUrlsRef.current;
+    return () => urls.forEach((u) => URL.revokeObjectURL(u));
+  }, []);
+
+  function frameRendered(image: ImageData) {
+    lastFrameRef.current = image;
+    setAnalysis(analyzeFrame(image));
+  }
+
+  // Render worker (null → render on the main thread)
+  const clientRef = useRef<RenderClient | null>(null);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  useEffect(() => {
+    if (workerFailed) return;
+    const client = createRenderClient({
+      onFrame(image) {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext("2d");
+        if (!canvas || !ctx) return;
+        canvas.width = image.width;
+        canvas.height = image.height;
+        ctx.putImageData(image, 0, 0);
+        frameRendered(image);
+      },
+      onError() {
+        setWorkerFailed(true);
+      },
+    });
+    clientRef.current = client;
+    return () => {
+      client?.dispose();
+      clientRef.current = null;
+    };
+  }, [workerFailed]);
 
   // Size image on load
   useEffect(() => {
     if (!imageBitmap) return;
-    const max = 1600;
-    const scale = Math.min(1, max / Math.max(imageBitmap.width, imageBitmap.height));
-    setOutW(Math.round(imageBitmap.width * scale));
-    setOutH(Math.round(imageBitmap.height * scale));
+    clientRef.current?.setSource(imageBitmap);
+    const size = previewSize(imageBitmap.width, imageBitmap.height);
+    setOutW(size.width);
+    setOutH(size.height);
     queueRender(true);
   }, [imageBitmap]);
 
-  // Queue a render on next RAF
+  // Frame stepping and playback
+  useEffect(() => {
+    if (animation) setDecoded(animation.frames[frameIndex]);
+  }, [animation, frameIndex]);
+  useEffect(() => {
+    if (!animation || !playing) return;
+    const t = setTimeout(() => setFrameIndex((i) => (i + 1) % animation.frames.length), animation.delays[frameIndex]);
+    return () => clearTimeout(t);
+  }, [animation, playing, frameIndex]);
+  useEffect(() => {
+    return () => animation?.frames.forEach((f) => f.close());
+  }, [animation]);
+
+  // Original for compare: same size as the fried canvas, so both letterbox identically
+  useEffect(() => {
+    const c = originalRef.current;
+    const ctx = c?.getContext("2d");
+    if (!c || !ctx || !imageBitmap || !outW || !outH) return;
+    const image = { width: imageBitmap.width, height: imageBitmap.height };
+    const { width, height, region: rg } = previewFrame(view, previewBox, image, dpr, outW, outH);
+    c.width = rg.width;
+    c.height = rg.height;
+    const sx = image.width / width;
+    const sy = image.height / height;
+    ctx.drawImage(imageBitmap, rg.x * sx, rg.y * sy, rg.width * sx, rg.height * sy, 0, 0, rg.width, rg.height);
+    // split: only the left part is original, the fried canvas shows through the rest
+    if (compare === "split" && !holding) ctx.clearRect(Math.round(split * width) - rg.x, 0, rg.width, rg.height);
+  }, [imageBitmap, outW, outH, compare, split, holding, view, previewBox, dpr]);
+
+  // Mask view: tinted where the fry applies, same window and letterbox as the fried canvas
+  useEffect(() => {
+    const c = maskViewRef.current;
+    const ctx = c?.getContext("2d");
+    if (!c || !ctx || !imageBitmap || !outW || !outH) return;
+    const { width, height, region: rg } = previewFrame(view, previewBox, imageBitmap, dpr, outW, outH);
+    c.width = rg.width;
+    c.height = rg.height;
+    if (hasMask(mask)) {
+      ctx.drawImage(renderMask(mask, rg.width, rg.height, { x: -rg.x, y: -rg.y, width, height }), 0, 0);
+    } else {
+      ctx.fillRect(0, 0, rg.width, rg.height); // no mask: the fry applies everywhere
+    }
+    ctx.globalCompositeOperation = "source-in";
+    ctx.fillStyle = "rgba(255,40,40,0.45)";
+    ctx.fillRect(0, 0, rg.width, rg.height);
+    ctx.globalCompositeOperation = "source-over";
+  }, [imageBitmap, outW, outH, mask, view, previewBox, dpr, showMaskView]);
+
+  // Clipping overlay: pinned channels of the frame on screen, same size as the fried canvas
+  useEffect(() => {
+    const c = clipRef.current;
+    const ctx = c?.getContext("2d");
+    const image = lastFrameRef.current;
+    if (!c || !ctx || !image || !showClipping) return;
+    c.width = image.width;
+    c.height = image.height;
+    const out = ctx.createImageData(image.width, image.height);
+    markClipping(image, out.data);
+    ctx.putImageData(out, 0, 0);
+  }, [analysis, showClipping]);
+
+  // Track the preview box size for the zoom math
+  const hasImage = !!imageBitmap;
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(([entry]) => setPreviewBox({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [hasImage]);
+
+  // Wheel zooms around the cursor; native listener because React's wheel handler is passive
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el || !previewBox || !srcW) return;
+    const image = { width: srcW, height: srcH };
+    function onWheel(e: WheelEvent) {
+      e.preventDefault();
+      const rect = el!.getBoundingClientRect();
+      const anchor = { dx: e.clientX - rect.left - rect.width / 2, dy: e.clientY - rect.top - rect.height / 2 };
+      const dy = e.deltaMode === 1 ? e.deltaY * 40 : e.deltaY; // lines → px
+      setView((v) => zoomAt(v, Math.exp(-dy * 0.002), anchor, previewBox!, image));
+    }
+    el.addEventListener("wheel", onWheel, { passive: false });
+    return () => el.removeEventListener("wheel", onWheel);
+  }, [previewBox, srcW, srcH]);
+
+  // Queue a render on next RAF, with the state of the latest render (an older bitmap may be closed by then)
+  const drawRef = useRef(draw);
+  drawRef.current = draw;
   function queueRender(requestFull: boolean) {
     if (requestFull) wantFullRef.current = true;
     if (rafRef.current != null) return;
@@ -54,226 +412,151 @@ export default function DeepFryStudio() {
       rafRef.current = null;
       const runFull = wantFullRef.current && !isScrubbingRef.current;
       wantFullRef.current = false;
-      renderFrame(runFull);
+      drawRef.current(runFull);
     });
   }
 
   // When inputs change, schedule render
   useEffect(() => {
     queueRender(false);
-  }, [brightness, contrast, saturation, hue, exposureEV, burn, preset]);
+  }, [
+    brightness,
+    contrast,
+    saturation,
+    hue,
+    exposureEV,
+    burn,
+    chromaShift,
+    chromaAngle,
+    chromaLens,
+    scanlineSpacing,
+    overlays,
+    stack,
+    elements,
+    text,
+    mask,
+    exactColor,
+    cropping,
+  ]);
   useEffect(() => {
     // heavy-only controls
     queueRender(!isScrubbingRef.current);
-  }, [noise, posterize]);
+  }, [
+    noise,
+    noiseMode,
+    seed,
+    posterize,
+    crunch,
+    crunchQuality,
+    sharpenAmount,
+    sharpenRadius,
+    sharpenThreshold,
+    edgeEnhance,
+    emboss,
+    blockSize,
+    blockiness,
+    vhsJitter,
+    chromaBleed,
+    tapeNoise,
+  ]);
   useEffect(() => {
     queueRender(true);
-  }, [outW, outH]);
+  }, [outW, outH, workerFailed, view, previewBox]);
+  useEffect(() => {
+    saveUserPresets(userPresets);
+  }, [userPresets]);
+
+  // Pasting a recipe link into an open tab only changes the hash
+  useEffect(() => {
+    function onHash() {
+      const r = decodeRecipe(window.location.hash, DEFAULT_RECIPE, [...BUILTIN_PRESETS, ...loadUserPresets()]);
+      if (r) setRecipe((cur) => ({ ...r, elements: cur.elements, text: cur.text, transform: cur.transform, mask: cur.mask }));
+    }
+    window.addEventListener("hashchange", onHash);
+    return () => window.removeEventListener("hashchange", onHash);
+  }, [setRecipe]);
 
-  function renderFrame(runHeavyPasses: boolean) {
+  function draw(runHeavyPasses: boolean) {
     if (!imageBitmap) return;
+    const frameParams = animation ? animationFrameParams(params, frameIndex) : params;
+    const options: RenderOptions = {
+      overlays,
+      stack,
+      // layers are placed on the cropped picture, so they sit out while the crop box is up
+      elements: cropping ? [] : elements,
+      text: cropping ? DEFAULT_MEME_TEXT : text,
+      mask: cropping ? undefined : mask,
+      exactColor,
+      width: outW || imageBitmap.width,
+      height: outH || imageBitmap.height,
+      // while scrubbing use lower-res working buffer to stay smooth on mobile
+      previewScale: isScrubbingRef.current ? 0.35 : 1, // 35% while dragging
+      heavy: runHeavyPasses || !isScrubbingRef.current,
+    };
+    // zoomed in: a bigger frame, but only the visible window of it gets rendered
+    const zoomed = previewBox && zoomFrame(view, previewBox, imageBitmap, dpr, options.width / imageBitmap.width);
+    if (zoomed) {
+      options.width = zoomed.width;
+      options.height = zoomed.height;
+      options.region = zoomed.region;
+      options.overlayScale = zoomed.width / (outW || imageBitmap.width);
+    }
+
+    // worker drops stale jobs itself; frames land in onFrame
+    const client = clientRef.current;
+    if (client) {
+      client.render({ params: frameParams, options });
+      return;
+    }
+
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx =
       (canvas.getContext("2d", { willReadFrequently: true } as any) as CanvasRenderingContext2D) ||
       canvas.getContext("2d");
     if (!ctx) return;
+    renderFrame(ctx, imageBitmap, frameParams, options);
 
-    // visible canvas target size
-    const CW = outW || imageBitmap.width;
-    const CH = outH || imageBitmap.height;
-    canvas.width = CW;
-    canvas.height = CH;
-
-    // while scrubbing use lower-res working buffer to stay smooth on mobile
-    const previewScale = isScrubbingRef.current ? 0.35 : 1; // 35% while dragging
-    const W = Math.max(1, Math.floor(CW * previewScale));
-    const H = Math.max(1, Math.floor(CH * previewScale));
-
-    const work = document.createElement("canvas");
-    work.width = W;
-    work.height = H;
-    const wctx = work.getContext("2d")! as any;
-
-    // 1) CSS filter pass (cheap on GPU) — cap brightness at 200%
-    const cssB = Math.min(brightness, 200);
-    wctx.filter = `brightness(${cssB}%) contrast(${contrast}%) saturate(${saturation}%) hue-rotate(${hue}deg)`;
-    wctx.imageSmoothingEnabled = true;
-    wctx.drawImage(imageBitmap, 0, 0, W, H);
-    wctx.filter = "none";
-
-    // 2) Pixel pass (skip heaviest work while scrubbing)
-    const allowHeavy = runHeavyPasses || !isScrubbingRef.current;
-    if (allowHeavy || exposureEV !== 0 || brightness > 200 || burn > 0) {
-      const img = wctx.getImageData(0, 0, W, H);
-      const d = img.data;
-
-      const exposureGain = Math.pow(2, exposureEV);
-      const extraGain = Math.max(1, brightness / 200); // > 200% boosted here
-
-      const doPosterize = posterize > 1 && allowHeavy;
-      const step = doPosterize ? 255 / (posterize - 1) : 0;
-
-      const doNoise = noise > 0 && allowHeavy;
-      const noiseAmp = doNoise ? noise * 255 : 0;
-
-      // Burn controls
-      const burnAmt = Math.max(0, Math.min(1, burn / 100)); // 0..1
-      const warmBoost = 0.45 * burnAmt; // stronger warmth
-      const hlPush = 1.15 * burnAmt; // stronger highlight push
-      const blueCut = 0.28 * burnAmt; // reduce blue more
-
-      for (let i = 0; i < d.length; i += 4) {
-        let r = d[i] * exposureGain * extraGain;
-        let g = d[i + 1] * exposureGain * extraGain;
-        let b = d[i + 2] * exposureGain * extraGain;
-
-        if (burnAmt > 0) {
-          const L = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-          const t = Math.min(1, Math.max(0, (L - 110) / 145)); // start warming earlier
-          const push = 1 + hlPush * t;
-          r = r * push + 255 * warmBoost * t * 0.6;
-          g = g * (1 + (hlPush * 0.65) * t) + 255 * warmBoost * t * 0.3;
-          b = b * (1 + (hlPush * 0.35) * t) - 255 * blueCut * t * 0.2;
-        }
-
-        if (doPosterize) {
-          r = Math.round(r / step) * step;
-          g = Math.round(g / step) * step;
-          b = Math.round(b / step) * step;
-        }
-
-        if (doNoise) {
-          const n = (Math.random() - 0.5) * 2 * noiseAmp;
-          r += n;
-          g += n;
-          b += n;
-        }
-
-        d[i] = clamp(r);
-        d[i + 1] = clamp(g);
-        d[i + 2] = clamp(b);
-      }
-
-      wctx.putImageData(img, 0, 0);
-
-      // 2b) Heat bloom (cheap blur via downscale-upscale) — gives stronger burn "glow"
-      if (burnAmt > 0 && allowHeavy) {
-        const bloomScale = 0.25; // small downsample
-        const bw = Math.max(1, (W * bloomScale) | 0);
-        const bh = Math.max(1, (H * bloomScale) | 0);
-        const bcnv = document.createElement("canvas");
-        bcnv.width = bw;
-        bcnv.height = bh;
-        const bx = bcnv.getContext("2d")!;
-        bx.imageSmoothingEnabled = true;
-        bx.drawImage(work, 0, 0, bw, bh);
-        wctx.save();
-        wctx.globalCompositeOperation = "screen";
-        wctx.globalAlpha = 0.35 * burnAmt;
-        wctx.drawImage(bcnv, 0, 0, W, H);
-        wctx.restore();
-      }
-    }
-
-    // 3) Blit working buffer to visible canvas
-    ctx.imageSmoothingEnabled = true;
-    ctx.clearRect(0, 0, CW, CH);
-    ctx.drawImage(work, 0, 0, CW, CH);
-
-    // 4) Overlays (cheap) — include extra burn vignette if burn>0
-    if (preset === "film") {
-      drawVignette(ctx, CW, CH, 0.5);
-      drawFilmBurn(ctx, CW, CH, 0.8);
-    }
-    if (preset === "lofi") {
-      drawVignette(ctx, CW, CH, 0.7);
-    }
-    if (preset === "vhs") {
-      drawScanlines(ctx, CW, CH, 0.18);
-      drawChromAb(ctx, CW, CH);
-    }
-    if (preset === "ultra") {
-      drawVignette(ctx, CW, CH, 0.85);
-      drawFilmBurn(ctx, CW, CH, 1.0);
-      drawScanlines(ctx, CW, CH, 0.25);
-      drawChromAb(ctx, CW, CH);
-    }
-
-    if (burn > 0) {
-      drawVignette(ctx, CW, CH, 0.28 * (burn / 100)); // stronger edge darken
-      drawWarmEdgeBurn(ctx, CW, CH, 0.5 * (burn / 100)); // warm edge glow
-    }
-  }
-
-  // Helpers
-  function clamp(v: number) {
-    return Math.max(0, Math.min(255, v | 0));
-  }
-
-  function drawVignette(ctx: CanvasRenderingContext2D, w: number, h: number, strength: number) {
-    const g = ctx.createRadialGradient(w / 2, h / 2, Math.min(w, h) * 0.25, w / 2, h / 2, Math.max(w, h) * 0.7);
-    g.addColorStop(0, "rgba(0,0,0,0)");
-    g.addColorStop(1, `rgba(0,0,0,${strength})`);
-    ctx.save();
-    ctx.globalCompositeOperation = "multiply";
-    ctx.fillStyle = g;
-    ctx.fillRect(0, 0, w, h);
-    ctx.restore();
-  }
-
-  function drawFilmBurn(ctx: CanvasRenderingContext2D, w: number, h: number, energy = 0.8) {
-    const g = ctx.createRadialGradient(w * 0.95, h * 0.05, 10, w * 0.7, h * 0.1, Math.max(w, h) * 0.85);
-    g.addColorStop(0, `rgba(255,200,100,${0.7 * energy})`);
-    g.addColorStop(0.35, `rgba(255,120,0,${0.35 * energy})`);
-    g.addColorStop(1, "rgba(0,0,0,0)");
-    ctx.save();
-    ctx.globalCompositeOperation = "screen";
-    ctx.fillStyle = g;
-    ctx.fillRect(0, 0, w, h);
-    ctx.restore();
-  }
-
-  function drawWarmEdgeBurn(ctx: CanvasRenderingContext2D, w: number, h: number, strength: number) {
-    // warm radial from edges inward
-    const g = ctx.createRadialGradient(w / 2, h / 2, Math.max(w, h) * 0.55, w / 2, h / 2, Math.max(w, h) * 0.95);
-    g.addColorStop(0, "rgba(0,0,0,0)");
-    g.addColorStop(1, `rgba(255,120,0,${Math.min(0.5, strength)})`);
-    ctx.save();
-    ctx.globalCompositeOperation = "screen";
-    ctx.fillStyle = g;
-    ctx.fillRect(0, 0, w, h);
-    ctx.restore();
-  }
-
-  function drawScanlines(ctx: CanvasRenderingContext2D, w: number, h: number, opacity: number) {
-    ctx.save();
-    ctx.globalAlpha = opacity;
-    ctx.fillStyle = "#000";
-    for (let y = 0; y < h; y += 2) ctx.fillRect(0, y, w, 1);
-    ctx.restore();
-  }
-
-  function drawChromAb(ctx: CanvasRenderingContext2D, w: number, h: number) {
-    const tmp = document.createElement("canvas");
-    tmp.width = w;
-    tmp.height = h;
-    const x = tmp.getContext("2d")!;
-    x.drawImage(ctx.canvas, 0, 0);
-    ctx.save();
-    ctx.globalCompositeOperation = "screen";
-    ctx.globalAlpha = 0.35;
-    ctx.drawImage(tmp, 1, 0);
-    ctx.globalAlpha = 0.35;
-    ctx.drawImage(tmp, -1, 0);
-    ctx.restore();
+    const token = ++frameTokenRef.current;
+    finishFrame(canvas, frameParams, options, imageBitmap).then((out) => {
+      if (token !== frameTokenRef.current) return;
+      if (out !== canvas) ctx.drawImage(out, 0, 0);
+      frameRendered(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    });
   }
 
   // File handling
   function onFile(e: React.ChangeEvent<HTMLInputElement>) {
-    const f = e.target.files?.[0];
-    if (!f) return;
-    (window as any).createImageBitmap(f).then((bmp: ImageBitmap) => setImageBitmap(bmp));
+    openFiles(Array.from(e.target.files ?? []));
+  }
+  // First file goes to the preview; several images (or an existing queue) go to the batch
+  function openFiles(files: File[]) {
+    const images = files.filter((f) => !f.type || f.type.startsWith("image/"));
+    const video = files.find((f) => f.type.startsWith("video/"));
+    if (!images.length && !video) return;
+    loadFile(images[0] ?? video!);
+    if (images.length > 1 || (batch.length && images.length)) setBatch((list) => [...list, ...images.map(createBatchItem)]);
+  }
+  async function loadFile(f: File) {
+    let anim: AnimatedSource | null = null;
+    let still: ImportedImage | null = null;
+    try {
+      anim = await loadAnimation(f);
+      if (!anim) still = await importImage(f);
+    } catch (err) {
+      alert(`Couldn't load that file: ${err instanceof Error ? err.message : err}`);
+      return;
+    }
+    startNewImage(still?.exif ?? null);
+    if (anim) {
+      setAnimation(anim);
+      setFrameIndex(0);
+      setPlaying(true);
+      setExportSettings((s) => ({ ...s, format: "gif" }));
+      return;
+    }
+    setAnimation(null);
+    setDecoded(still!.bitmap);
   }
   function loadDemo() {
     const c = document.createElement("canvas");
@@ -288,104 +571,748 @@ export default function DeepFryStudio() {
     x.fillStyle = "rgba(255,255,255,0.9)";
     x.font = "48px system-ui";
     x.fillText("Demo Image", 200, 400);
-    (window as any).createImageBitmap(c).then((bmp: ImageBitmap) => setImageBitmap(bmp));
+    setAnimation(null);
+    startNewImage(null);
+    (window as any).createImageBitmap(c).then((bmp: ImageBitmap) => setDecoded(bmp));
   }
+  // A new picture starts at fit, uncropped, unmasked and without the last one's placed layers —
+  // in every history entry, so undo can't bring them back onto it
+  function startNewImage(exif: Uint8Array | null) {
+    setView(FIT_VIEW);
+    setCropDraft(null);
+    setSelectedId(null);
+    setSourceExif(exif);
+    history.rewrite(recipeForNewImage);
+  }
+  // Ctrl/Cmd+V with an image on the clipboard opens it like a dropped file
+  const openFilesRef = useRef(openFiles);
+  openFilesRef.current = openFiles;
+  useEffect(() => {
+    function onPaste(e: ClipboardEvent) {
+      const files = pastedImages(e.clipboardData);
+      if (!files.length) return; // text pastes go where they were going
+      e.preventDefault();
+      openFilesRef.current(files);
+    }
+    document.addEventListener("paste", onPaste);
+    return () => document.removeEventListener("paste", onPaste);
+  }, []);
   function onDragOver(e: React.DragEvent) {
     e.preventDefault();
   }
   function onDrop(e: React.DragEvent) {
     e.preventDefault();
-    const f = (e as any).dataTransfer?.files?.[0] as File | undefined;
-    if (f) (window as any).createImageBitmap(f).then((bmp: ImageBitmap) => setImageBitmap(bmp));
+    openFiles(Array.from(((e as any).dataTransfer?.files ?? []) as FileList));
   }
 
   // Actions
-  function handleDownload() {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    if (canvas.width === 0 || canvas.height === 0) {
+  // Stills re-render off-screen at export size instead of grabbing the preview canvas
+  async function renderStill(source: ImageBitmap): Promise<AnyCanvas> {
+    const frameParams = animation ? animationFrameParams(params, frameIndex) : params;
+    const job = buildExportJob(frameParams, overlays, source.width, source.height, exportSettings.size, {
+      stack,
+      elements,
+      text,
+      mask,
+    });
+    const client = clientRef.current;
+    // the worker gets its own copy of `source`: playback replaces the shared one every frame
+    return client ? imageDataToCanvas(await client.exportImage(job, source)) : renderExport(source, job);
+  }
+  // What Download saves and Share sends
+  async function exportFile(source: ImageBitmap): Promise<File> {
+    const preset = presetFileLabel(activePreset);
+    if (animation && exportSettings.format === "gif") {
+      const blob = await exportAnimation(animation, history.state, exportSettings.size, setExportProgress);
+      const frame = transformedSize(animation.frames[0].width, animation.frames[0].height, transform);
+      const { width, height } = resolveExportSize(frame.width, frame.height, animationExportSize(frame.width, frame.height, exportSettings.size));
+      return new File([blob], formatFilename(exportSettings.filename, { preset, width, height, format: "gif" }), { type: blob.type });
+    }
+    const out = await renderStill(source);
+    const filename = formatFilename(exportSettings.filename, {
+      preset,
+      width: out.width,
+      height: out.height,
+      format: exportSettings.format,
+    });
+    return new File([await encodeExport(out, exportSettings, sourceExif)], filename, { type: EXPORT_FORMATS[exportSettings.format].mime });
+  }
+  async function handleDownload() {
+    if (!imageBitmap) {
       alert("Nothing to download yet.");
       return;
     }
-    const link = document.createElement("a");
-    link.download = "deepfry.jpg";
-    link.href = canvas.toDataURL("image/jpeg", 0.9);
-    document.body.appendChild(link);
-    link.click();
-    setTimeout(() => link.remove(), 0);
+    setExporting(true);
+    try {
+      const file = await exportFile(imageBitmap);
+      downloadBlob(file, file.name);
+    } catch (err) {
+      alert(`Export failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setExporting(false);
+      setExportProgress(null);
+    }
+  }
+  // PNG on the clipboard, for pasting straight into a chat; browsers without image copy get the file
+  async function handleCopyImage() {
+    if (!imageBitmap) return;
+    setExporting(true);
+    const still = renderStill(imageBitmap); // awaited on every path below
+    try {
+      if (canCopyImage()) {
+        try {
+          await copyImage(still.then((c) => canvasToBlob(c, "image/png")));
+          setImageCopied(true);
+          setTimeout(() => setImageCopied(false), 1500);
+          return;
+        } catch {
+          // refused (permission, page not focused) — or the render failed, which `await still` reports
+        }
+      }
+      const canvas = await still;
+      const filename = formatFilename(exportSettings.filename, {
+        preset: presetFileLabel(activePreset),
+        width: canvas.width,
+        height: canvas.height,
+        format: "png",
+      });
+      downloadBlob(await canvasToBlob(canvas, "image/png"), filename);
+    } catch (err) {
+      alert(`Copy failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setExporting(false);
+    }
+  }
+  // Share sheet (only offered where files can be shared, mostly mobile); a refused share downloads instead
+  async function handleShare() {
+    if (!imageBitmap) return;
+    setExporting(true);
+    try {
+      const file = await exportFile(imageBitmap);
+      try {
+        await shareFile(file, "DeepFry Studio");
+      } catch {
+        downloadBlob(file, file.name); // e.g. the click's permission ran out during a long export
+      }
+    } catch (err) {
+      alert(`Share failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setExporting(false);
+      setExportProgress(null);
+    }
+  }
+  async function handleRunBatch() {
+    setBatchRunning(true);
+    try {
+      const update = (id: string, patch: Partial<BatchItem>) =>
+        setBatch((list) => list.map((it) => (it.id === id ? { ...it, ...patch } : it)));
+      const outputs = await runBatch(batch, history.state, exportSettings, presetFileLabel(activePreset), update);
+      if (!outputs.length) {
+        alert("Nothing in the batch could be fried.");
+        return;
+      }
+      const entries = await Promise.all(
+        outputs.map(async (o) => ({ name: o.name, data: new Uint8Array(await o.blob.arrayBuffer()) }))
+      );
+      downloadBlob(new Blob([createZip(entries)], { type: "application/zip" }), "deepfry-batch.zip");
+    } catch (err) {
+      alert(`Batch failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setBatchRunning(false);
+    }
+  }
+  function removeBatchItems(keep: (item: BatchItem) => boolean) {
+    batch.filter((it) => !keep(it)).forEach((it) => URL.revokeObjectURL(it.thumbUrl));
+    setBatch((list) => list.filter(keep));
+  }
+
+  async function handleCopyLink() {
+    const { origin, pathname, search } = window.location;
+    const url = `${origin}${pathname}${search}#${encodeRecipe(history.state)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch {
+      prompt("Copy this recipe link", url);
+    }
   }
   function handleReset() {
-    setBrightness(120);
-    setContrast(120);
-    setSaturation(140);
-    setHue(0);
-    setExposureEV(0);
-    setBurn(35);
-    setNoise(0.08);
-    setPosterize(0);
-    setPreset("none");
-    queueRender(true);
+    applyPreset(BUILTIN_PRESETS.find((p) => p.id === "none")!, false);
+    setSelectedId(null);
+    setCropDraft(null);
   }
   function handleMakeAnother() {
     handleReset();
-    setImageBitmap(null);
+    setAnimation(null);
+    setDecoded(null);
     setTimeout(() => fileInputRef.current?.click(), 0);
   }
 
-  function applyPreset(p: PresetType) {
-    setPreset(p);
-    if (p === "film") {
-      setBrightness(115);
-      setContrast(130);
-      setSaturation(150);
-      setHue(10);
-      setExposureEV(0.2);
-      setBurn(50);
-      setNoise(0.12);
-      setPosterize(0);
-    } else if (p === "lofi") {
-      setBrightness(110);
-      setContrast(95);
-      setSaturation(70);
-      setHue(8);
-      setExposureEV(-0.1);
-      setBurn(20);
-      setNoise(0.06);
-      setPosterize(0);
-    } else if (p === "vhs") {
-      setBrightness(115);
-      setContrast(130);
-      setSaturation(120);
-      setHue(0);
-      setExposureEV(0);
-      setBurn(30);
-      setNoise(0.08);
-      setPosterize(0);
-    } else if (p === "ultra") {
-      setBrightness(200);
-      setContrast(200);
-      setSaturation(220);
-      setHue(20);
-      setExposureEV(0.8);
-      setBurn(75);
-      setNoise(0.2);
-      setPosterize(6);
-    } else if (p === "none") {
-      handleReset();
-    }
+  function applyPreset(p: Preset, keepLayers = true) {
+    setRecipe((r) => ({
+      params: applyPresetParams(r.params, p),
+      presetId: p.id,
+      overlays: p.overlays.map((o) => ({ ...o })),
+      stack: p.stack ? p.stack.map((s) => ({ ...s })) : null,
+      elements: keepLayers ? r.elements : [],
+      text: keepLayers ? r.text : DEFAULT_MEME_TEXT,
+      transform: keepLayers ? r.transform : IDENTITY_TRANSFORM,
+      mask: keepLayers ? r.mask : DEFAULT_MASK,
+    }));
     queueRender(true);
   }
+  function setOverlayStrength(index: number, strength: number) {
+    if (!stack) {
+      setRecipe((r) => ({ ...r, overlays: r.overlays.map((o, i) => (i === index ? { ...o, strength } : o)) }));
+      return;
+    }
+    // the overlay list mirrors the stack's overlay passes
+    const pass = stack.filter((p) => isOverlayPass(p.type))[index];
+    if (pass) editStack((s) => updatePass(s, pass.id, { strength }));
+  }
+
+  // Effect stack — the first edit turns the classic order into a custom stack
+  function editStack(update: (stack: StackPass[]) => StackPass[]) {
+    setRecipe((r) => {
+      const next = update(r.stack ?? defaultStack(r.overlays));
+      return { ...r, stack: next, overlays: stackOverlays(next) };
+    });
+  }
+  function addPass(type: PassType) {
+    editStack((s) => {
+      // new passes go in before the trailing burn edges, which normally finish the look
+      const end = s.length && s[s.length - 1].type === "burnEdges" ? s.length - 1 : s.length;
+      return [...s.slice(0, end), createPass(type), ...s.slice(end)];
+    });
+  }
+  function handleSavePreset() {
+    const name = prompt("Preset name", activePreset && !activePreset.builtin ? activePreset.name : "My preset");
+    if (!name?.trim()) return;
+    const p = presetFromState(name.trim(), params, overlays, stack);
+    setUserPresets((list) => [...list, p]);
+    setRecipe((r) => ({ ...r, presetId: p.id }));
+  }
+  function handleDeletePreset(id: string) {
+    setUserPresets((list) => list.filter((p) => p.id !== id));
+  }
+  async function handleImportPresets(file: File) {
+    try {
+      const imported = parsePresets(await file.text());
+      // same id → replace, so re-importing a shared file updates it
+      setUserPresets((list) => [...list.filter((p) => !imported.some((q) => q.id === p.id)), ...imported]);
+    } catch (err) {
+      alert(`Couldn't import presets: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  function handleExportPresets() {
+    downloadBlob(new Blob([serializePresets(userPresets)], { type: "application/json" }), "deepfry-presets.json");
+  }
+
+  async function handleRandomizeUntilFry() {
+    const source = imageBitmap;
+    if (!source) return;
+    setSearching(true);
+    try {
+      const look = { overlays, stack, elements, text, mask };
+      const best = await randomizeUntilFry(source, params, look, fryTarget, locked, clientRef.current);
+      if (imageBitmapRef.current === source) setParams((p) => ({ ...best.params, seed: p.seed }));
+    } catch (err) {
+      // a new picture closes the old one under the search; only real failures are worth a message
+      if (imageBitmapRef.current === source) alert(`Randomize failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      setSearching(false);
+    }
+  }
+  async function handleSurprise(seed = randomSeed()) {
+    const source = imageBitmap;
+    if (!source) return;
+    const token = ++surpriseTokenRef.current;
+    const superseded = () => token !== surpriseTokenRef.current || imageBitmapRef.current !== source;
+    const candidates = surpriseCandidates(params, seed, locked);
+    thumbUrlsRef.current.splice(0).forEach((u) => URL.revokeObjectURL(u));
+    setSurprise({ seed, candidates });
+    setThumbs(candidates.map(() => null));
+    setGenerating(true);
+    const look = { overlays, stack, elements, text, mask };
+    try {
+      for (let i = 0; i < candidates.length; i++) {
+        const canvas = await renderThumbnail(source, candidates[i].params, look, clientRef.current);
+        const blob = await canvasToBlob(canvas, "image/jpeg", 0.85);
+        if (superseded()) return;
+        const url = URL.createObjectURL(blob);
+        thumbUrlsRef.current.push(url);
+        const thumb = { url, score: measureFry(canvas) };
+        setThumbs((list) => list.map((t, j) => (j === i ? thumb : t)));
+      }
+    } catch (err) {
+      // a newer batch or a new picture took over; anything else left the grid short, so say why
+      if (!superseded()) alert(`Surprise me failed: ${err instanceof Error ? err.message : err}`);
+    } finally {
+      if (token === surpriseTokenRef.current) setGenerating(false);
+    }
+  }
+  function pickCandidate(index: number) {
+    const c = surprise?.candidates[index];
+    if (c) setParams((p) => ({ ...c.params, seed: p.seed }));
+  }
+  function toggleLock(key: NumericParam) {
+    setLocked((list) => (list.includes(key) ? list.filter((k) => k !== key) : [...list, key]));
+  }
+  function rerollGrain() {
+    setParam("seed")(randomSeed());
+  }
+
+  // Crop and rotate — rotation and flips are one step each, the crop box commits on Apply
+  const cropRatio = CROP_ASPECTS.find((a) => a.id === cropAspect)?.ratio ?? null;
+  function rotate(dir: 1 | -1) {
+    setRecipe((r) => ({ ...r, transform: rotateTransform(r.transform, dir) }));
+  }
+  function flip(axis: "h" | "v") {
+    setRecipe((r) => ({ ...r, transform: flipTransform(r.transform, axis) }));
+  }
+  function startCrop(ratio = cropRatio) {
+    if (!decoded) return;
+    const o = orientedSize(decoded.width, decoded.height, transform);
+    setCropDraft(transform.crop ?? fitCropAspect(FULL_CROP, ratio, o.width, o.height));
+    setView(FIT_VIEW);
+    setTool(null);
+    setSelectedId(null);
+  }
+  function pickCropAspect(id: string) {
+    setCropAspect(id);
+    const ratio = CROP_ASPECTS.find((a) => a.id === id)?.ratio ?? null;
+    if (!cropDraft || !decoded) {
+      startCrop(ratio);
+      return;
+    }
+    const o = orientedSize(decoded.width, decoded.height, transform);
+    setCropDraft(fitCropAspect(cropDraft, ratio, o.width, o.height));
+  }
+  function applyCrop() {
+    const c = cropDraft;
+    if (!c) return;
+    const full = c.w >= 0.999 && c.h >= 0.999;
+    setRecipe((r) => ({ ...r, transform: { ...r.transform, crop: full ? null : c } }));
+    setCropDraft(null);
+  }
+  function startCropDrag(p: { x: number; y: number }) {
+    const c = cropDraft!;
+    const grab = 0.04;
+    const corners = [
+      [c.x, c.y],
+      [c.x + c.w, c.y],
+      [c.x, c.y + c.h],
+      [c.x + c.w, c.y + c.h],
+    ];
+    const i = corners.findIndex(([x, y]) => Math.abs(p.x - x) < grab && Math.abs(p.y - y) < grab);
+    const inside = p.x > c.x && p.x < c.x + c.w && p.y > c.y && p.y < c.y + c.h;
+    if (i >= 0) cropDragRef.current = { kind: "corner", ax: corners[3 - i][0], ay: corners[3 - i][1] }; // drag from the opposite corner
+    else if (inside) cropDragRef.current = { kind: "move", dx: c.x - p.x, dy: c.y - p.y };
+    else cropDragRef.current = { kind: "corner", ax: p.x, ay: p.y };
+  }
+
+  // Fry mask — each stroke or gradient drag is one undo step
+  function pickMaskTool(t: MaskTool | null) {
+    setMaskTool(t);
+    if (!t) return;
+    setTool(null);
+    setSelectedId(null);
+  }
+  function startMaskDrag(p: Point) {
+    startScrub();
+    maskDragRef.current = p;
+    const shape: MaskShape =
+      maskTool === "radial"
+        ? { kind: "radial", x: p.x, y: p.y, radius: 0.01, feather: 1 - brush.hardness }
+        : maskTool === "linear"
+        ? { kind: "linear", from: p, to: p }
+        : { kind: "brush", points: [p], size: brush.size, hardness: brush.hardness, erase: maskTool === "erase" };
+    setRecipe((r) => ({ ...r, mask: { ...r.mask, shapes: [...r.mask.shapes, shape] } }));
+  }
+  function updateMaskDrag(p: Point) {
+    const start = maskDragRef.current!;
+    setRecipe((r) => {
+      const shapes = r.mask.shapes.slice();
+      const last = shapes[shapes.length - 1];
+      if (!last) return r;
+      if (last.kind === "brush") {
+        shapes[shapes.length - 1] = { ...last, points: [...last.points, p] };
+      } else if (last.kind === "radial") {
+        // radius is in short-edge units, so measure the drag in pixels
+        const d = Math.hypot((p.x - start.x) * outW, (p.y - start.y) * outH);
+        shapes[shapes.length - 1] = { ...last, radius: Math.max(0.01, d / Math.min(outW, outH)) };
+      } else {
+        shapes[shapes.length - 1] = { ...last, to: p };
+      }
+      return { ...r, mask: { ...r.mask, shapes } };
+    });
+  }
+
+  // Placed elements
+  function updateElement(id: string, patch: Partial<PlacedElement>) {
+    setRecipe((r) => ({ ...r, elements: r.elements.map((e) => (e.id === id ? ({ ...e, ...patch } as PlacedElement) : e)) }));
+  }
+  function removeElement(id: string) {
+    setRecipe((r) => ({ ...r, elements: r.elements.filter((e) => e.id !== id) }));
+    setSelectedId(null);
+  }
+  // Meme text
+  function setText(patch: Partial<MemeText>) {
+    setRecipe((r) => ({ ...r, text: { ...r.text, ...patch } }));
+  }
+  function updateTextBox(id: string, patch: Partial<TextBox>) {
+    setRecipe((r) => ({ ...r, text: { ...r.text, boxes: r.text.boxes.map((b) => (b.id === id ? { ...b, ...patch } : b)) } }));
+  }
+  function addTextBox() {
+    const box = createTextBox();
+    setText({ boxes: [...text.boxes, box] });
+    setSelectedId(box.id);
+  }
+  function removeTextBox(id: string) {
+    setRecipe((r) => ({ ...r, text: { ...r.text, boxes: r.text.boxes.filter((b) => b.id !== id) } }));
+    setSelectedId(null);
+  }
+
+  // Zoom/pan
+  function changeView(update: (v: View, box: Size, image: Size) => View) {
+    if (!previewBox || !srcW) return;
+    const image = { width: srcW, height: srcH };
+    setView((v) => update(v, previewBox, image));
+  }
+  function startPinch() {
+    const [a, b] = Array.from(pointersRef.current.values());
+    pinchRef.current = { dist: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    // a second finger turns whatever the first one started into a pinch
+    panRef.current = null;
+    cropDragRef.current = null;
+    splitDragRef.current = false;
+    cancelHold();
+    if (dragRef.current || maskDragRef.current) {
+      dragRef.current = null;
+      maskDragRef.current = null;
+      endScrub();
+    }
+  }
+
+  // Pointer → image-relative coords; the canvas (the visible window) is letterboxed by object-contain
+  function imagePoint(e: React.PointerEvent<HTMLCanvasElement>) {
+    const c = e.currentTarget;
+    const rect = c.getBoundingClientRect();
+    const scale = Math.min(rect.width / c.width, rect.height / c.height);
+    const left = rect.left + (rect.width - c.width * scale) / 2;
+    const top = rect.top + (rect.height - c.height * scale) / 2;
+    const x = (e.clientX - left) / (c.width * scale);
+    const y = (e.clientY - top) / (c.height * scale);
+    return { x: visible.x + x * visible.w, y: visible.y + y * visible.h };
+  }
+  function onCanvasPointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    // captured even off the image, so every pointer we track also reports its release
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointersRef.current.size > 1) {
+      if (pointersRef.current.size === 2) startPinch();
+      return;
+    }
+    const p = imagePoint(e);
+    if (p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1) return;
+    if (cropDraft) {
+      startCropDrag(p);
+      return;
+    }
+    if (maskTool) {
+      startMaskDrag(p);
+      return;
+    }
+    if (compare === "split" && Math.abs(p.x - split) < 0.04) {
+      splitDragRef.current = true;
+      return;
+    }
+    // text sits on top, so it wins the hit test
+    const box = hitTextBox(text.boxes, p.x, p.y);
+    const hit = box ? null : hitTest(elements, p.x, p.y, outW, outH);
+    if (!box && !hit && !tool) {
+      setSelectedId(null);
+      // zoomed in, dragging empty canvas pans; at fit, press-and-hold shows the original
+      if (view.zoom > 1) panRef.current = { x: e.clientX, y: e.clientY };
+      else if (compare !== "side") holdTimerRef.current = window.setTimeout(() => setHolding(true), 200);
+      return;
+    }
+    // placing and the drag that follows are one undo step
+    startScrub();
+    if (box) {
+      setSelectedId(box.id);
+      dragRef.current = { kind: "text", id: box.id, dx: box.x - p.x, dy: box.y - p.y };
+    } else if (hit) {
+      setSelectedId(hit.id);
+      dragRef.current = { kind: "element", id: hit.id, dx: hit.x - p.x, dy: hit.y - p.y };
+    } else {
+      const el = createElement(tool!, p.x, p.y, emoji);
+      setRecipe((r) => ({ ...r, elements: [...r.elements, el] }));
+      setSelectedId(el.id);
+      dragRef.current = { kind: "element", id: el.id, dx: 0, dy: 0 };
+    }
+  }
+  function onCanvasPointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    const pointers = pointersRef.current;
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const pinch = pinchRef.current;
+    if (pinch && pointers.size === 2) {
+      const [a, b] = Array.from(pointers.values());
+      const next = { dist: Math.hypot(a.x - b.x, a.y - b.y), x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const rect = e.currentTarget.getBoundingClientRect();
+      const anchor = { dx: next.x - rect.left - rect.width / 2, dy: next.y - rect.top - rect.height / 2 };
+      const factor = pinch.dist > 0 ? next.dist / pinch.dist : 1;
+      changeView((v, box, image) => panBy(zoomAt(v, factor, anchor, box, image), next.x - pinch.x, next.y - pinch.y, box, image));
+      pinchRef.current = next;
+      return;
+    }
+    const pan = panRef.current;
+    if (pan) {
+      changeView((v, box, image) => panBy(v, e.clientX - pan.x, e.clientY - pan.y, box, image));
+      panRef.current = { x: e.clientX, y: e.clientY };
+      return;
+    }
+    const cropDrag = cropDragRef.current;
+    if (cropDrag && cropDraft && imageBitmap) {
+      const p = imagePoint(e);
+      setCropDraft(
+        cropDrag.kind === "move"
+          ? clampCrop({ ...cropDraft, x: p.x + cropDrag.dx, y: p.y + cropDrag.dy })
+          : cropFromCorners(cropDrag.ax, cropDrag.ay, p.x, p.y, cropRatio, imageBitmap.width, imageBitmap.height)
+      );
+      return;
+    }
+    if (maskDragRef.current) {
+      updateMaskDrag(imagePoint(e));
+      return;
+    }
+    if (splitDragRef.current) {
+      setSplit(Math.max(0, Math.min(1, imagePoint(e).x)));
+      return;
+    }
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = imagePoint(e);
+    const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+    const pos = { x: clamp01(p.x + drag.dx), y: clamp01(p.y + drag.dy) };
+    if (drag.kind === "text") updateTextBox(drag.id, pos);
+    else updateElement(drag.id, pos);
+  }
+  function onCanvasPointerUp(e: React.PointerEvent<HTMLCanvasElement>) {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size < 2) pinchRef.current = null;
+    panRef.current = null;
+    cropDragRef.current = null;
+    splitDragRef.current = false;
+    cancelHold();
+    if (maskDragRef.current) {
+      maskDragRef.current = null;
+      endScrub();
+      return;
+    }
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    endScrub();
+  }
+
+  function cancelHold() {
+    if (holdTimerRef.current != null) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+    setHolding(false);
+  }
 
   // slider UX helpers
   const startScrub = () => {
     isScrubbingRef.current = true;
+    history.beginGesture();
     queueRender(false);
   };
   const endScrub = () => {
     isScrubbingRef.current = false;
+    history.endGesture();
     queueRender(true);
   };
 
+  // Delete/Backspace removes the selected element
+  useEffect(() => {
+    if (!selectedId) return;
+    function onKey(e: KeyboardEvent) {
+      if (e.key !== "Delete" && e.key !== "Backspace") return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.isContentEditable || t.tagName === "INPUT" || t.tagName === "TEXTAREA")) return;
+      e.preventDefault();
+      setRecipe((r) => ({
+        ...r,
+        elements: r.elements.filter((el) => el.id !== selectedId),
+        text: { ...r.text, boxes: r.text.boxes.filter((b) => b.id !== selectedId) },
+      }));
+      setSelectedId(null);
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [selectedId, setRecipe]);
+
+  // Ctrl/Cmd+Z undo, Shift+Z (or Ctrl+Y) redo — text fields keep their own undo
+  const { undo, redo } = history;
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.isContentEditable || (t.tagName === "INPUT" && (t as HTMLInputElement).type !== "range") || t.tagName === "TEXTAREA")) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) undo();
+      else if ((k === "z" && e.shiftKey) || k === "y") redo();
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  const sliders = (compact: boolean) =>
+    ADJUSTMENTS.map((a) => ({
+      label: adjustmentLabel(a, params[a.key], compact),
+      min: a.min,
+      max: a.max,
+      step: a.step,
+      val: params[a.key],
+      set: setParam(a.key),
+      locked: locked.includes(a.key),
+      toggleLock: () => toggleLock(a.key),
+    }));
+
+  const presetPanelProps = {
+    presets: allPresets,
+    activeId: presetId,
+    overlays,
+    onApply: applyPreset,
+    onOverlayStrength: setOverlayStrength,
+    onScrubStart: startScrub,
+    onScrubEnd: endScrub,
+    onSave: handleSavePreset,
+    onDelete: handleDeletePreset,
+    onImport: handleImportPresets,
+    onExport: handleExportPresets,
+  };
+
+  // kept out of the label, so tapping the slider name doesn't toggle it
+  const lockButton = (s: { locked: boolean; toggleLock(): void }) => (
+    <button
+      onClick={s.toggleLock}
+      aria-pressed={s.locked}
+      title={s.locked ? "Locked: Surprise me keeps this value" : "Lock for Surprise me"}
+      className={`absolute top-0 right-0 text-[11px] leading-4 ${s.locked ? 'opacity-100' : 'opacity-30 hover:opacity-70'}`}
+    >
+      {s.locked ? "🔒" : "🔓"}
+    </button>
+  );
+
+  const histogramPanelProps = {
+    analysis,
+    showClipping,
+    target: fryTarget,
+    searching,
+    onShowClipping: setShowClipping,
+    onTarget: setFryTarget,
+    onRandomize: handleRandomizeUntilFry,
+  };
+
+  const randomizePanelProps = {
+    seed: surprise?.seed ?? null,
+    thumbs,
+    generating,
+    lockedCount: locked.length,
+    onSurprise: handleSurprise,
+    onPick: pickCandidate,
+    onUnlockAll: () => setLocked([]),
+  };
+
+  const stackPanelProps = {
+    stack: stack ?? defaultStack(overlays),
+    custom: !!stack,
+    onToggle: (id: string, enabled: boolean) => editStack((s) => updatePass(s, id, { enabled })),
+    onMove: (id: string, dir: 1 | -1) => editStack((s) => movePass(s, id, dir)),
+    onDuplicate: (id: string) => editStack((s) => duplicatePass(s, id)),
+    onRemove: (id: string) => editStack((s) => removePass(s, id)),
+    onChange: (id: string, patch: Partial<Pick<StackPass, "opacity" | "blend">>) => editStack((s) => updatePass(s, id, patch)),
+    onAdd: addPass,
+    onReset: () => setRecipe((r) => ({ ...r, stack: null })),
+    onScrubStart: startScrub,
+    onScrubEnd: endScrub,
+  };
+
+  const elementsPanelProps = {
+    tool,
+    emoji,
+    selected,
+    count: elements.length,
+    onTool: (t: ElementType | null) => {
+      setTool(t);
+      if (t) setMaskTool(null);
+    },
+    onEmoji: setEmoji,
+    onChange: (patch: Partial<PlacedElement>) => selected && updateElement(selected.id, patch),
+    onDelete: () => selected && removeElement(selected.id),
+    onClear: () => {
+      setRecipe((r) => ({ ...r, elements: [] }));
+      setSelectedId(null);
+    },
+    onScrubStart: startScrub,
+    onScrubEnd: endScrub,
+  };
+
+  const maskPanelProps = {
+    tool: maskTool,
+    brush,
+    invert: mask.invert,
+    showMask,
+    count: mask.shapes.length,
+    onTool: pickMaskTool,
+    onBrush: (patch: Partial<typeof brush>) => setBrush((b) => ({ ...b, ...patch })),
+    onInvert: (invert: boolean) => setRecipe((r) => ({ ...r, mask: { ...r.mask, invert } })),
+    onShowMask: setShowMask,
+    onClear: () => setRecipe((r) => ({ ...r, mask: DEFAULT_MASK })),
+  };
+
+  const transformPanelProps = {
+    transform,
+    cropping,
+    aspect: cropAspect,
+    onRotate: rotate,
+    onFlip: flip,
+    onAspect: pickCropAspect,
+    onCropStart: () => startCrop(),
+    onCropApply: applyCrop,
+    onCropCancel: () => setCropDraft(null),
+    onCropReset: () => setRecipe((r) => ({ ...r, transform: { ...r.transform, crop: null } })),
+  };
+
+  const textPanelProps = {
+    text,
+    selectedId,
+    onChange: setText,
+    onBox: updateTextBox,
+    onAddBox: addTextBox,
+    onRemoveBox: removeTextBox,
+    onSelect: setSelectedId,
+    onEditStart: history.beginGesture,
+    onEditEnd: history.endGesture,
+  };
+
+  const exactColorToggle = (
+    <label className="mt-3 flex items-center gap-1.5 text-xs text-neutral-300">
+      <input type="checkbox" checked={exactColor || !supportsCanvasFilter()} disabled={!supportsCanvasFilter()} onChange={(e) => setExactColor(e.target.checked)} className="accent-white" />
+      Exact color{supportsCanvasFilter() ? " (matches export on every browser)" : " (this browser ignores canvas filters)"}
+    </label>
+  );
+
+  // overlays share the canvas's window onto the image; past 100% show hard pixel edges
+  const viewBox = `${visible.x * outW} ${visible.y * outH} ${visible.w * outW} ${visible.h * outH}`;
+  const pixelStyle: React.CSSProperties = { imageRendering: zoomScale * dpr > 1 ? "pixelated" : undefined };
+
   return (
     <div className="min-h-screen bg-neutral-950 text-neutral-100" onDragOver={onDragOver} onDrop={onDrop}>
       <header className="sticky top-0 z-30 backdrop-blur border-b border-white/10 bg-neutral-950/70">
@@ -395,7 +1322,9 @@ export default function DeepFryStudio() {
             <h1 className="text-lg sm:text-xl font-semibold tracking-tight">DeepFry Studio</h1>
           </div>
           <div className="hidden sm:flex items-center gap-2">
-            <button onClick={handleDownload} disabled={!imageBitmap} className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-neutral-200 transition shadow disabled:opacity-40">Download JPG</button>
+            <button onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl/Cmd+Z)" className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10 disabled:opacity-40">Undo</button>
+            <button onClick={history.redo} disabled={!history.canRedo} title="Redo (Shift+Ctrl/Cmd+Z)" className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10 disabled:opacity-40">Redo</button>
+            <button onClick={handleDownload} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-neutral-200 transition shadow disabled:opacity-40">{exportProgress != null ? `Frying frames… ${Math.round(exportProgress * 100)}%` : `Download ${EXPORT_FORMATS[exportSettings.format].label}`}</button>
             <button onClick={handleMakeAnother} className="px-3 py-2 rounded-xl bg-amber-400 text-black text-sm font-semibold hover:bg-amber-300 transition">Make Another</button>
             <button onClick={handleReset} disabled={!imageBitmap} className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10">Reset</button>
           </div>
@@ -408,35 +1337,184 @@ export default function DeepFryStudio() {
           <div className="relative aspect-[4/5] sm:aspect-[16/12] w-full rounded-xl sm:rounded-2xl border border-white/10 overflow-hidden bg-neutral-900 flex items-center justify-center">
             {!imageBitmap ? (
               <div className="text-center p-6 sm:p-8">
-                <p className="text-base sm:text-lg font-medium mb-1 sm:mb-2">Drop an image here</p>
-                <p className="text-xs sm:text-sm text-neutral-300 mb-3 sm:mb-4">or choose a file</p>
+                <p className="text-base sm:text-lg font-medium mb-1 sm:mb-2">Drop an image, GIF or video here</p>
+                <p className="text-xs sm:text-sm text-neutral-300 mb-3 sm:mb-4">or choose a file, or paste one</p>
                 <div className="flex justify-center gap-2">
                   <button onClick={() => fileInputRef.current?.click()} className="px-3 sm:px-4 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-neutral-200 transition shadow">Upload</button>
                   <button onClick={loadDemo} className="px-3 sm:px-4 py-2 rounded-xl bg-white/10 border border-white/10 text-sm hover:bg-white/20">Load Demo</button>
                 </div>
-                <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={onFile} />
+                <input ref={fileInputRef} type="file" accept="image/*,video/*" multiple className="hidden" onChange={onFile} />
               </div>
             ) : (
-              <canvas ref={canvasRef} className="w-full h-full object-contain touch-none" />
+              <div className={`w-full h-full ${compare === "side" ? "grid grid-cols-2 gap-1" : ""}`}>
+                {compare === "side" && <canvas ref={originalRef} style={pixelStyle} className="w-full h-full min-w-0 min-h-0 object-contain" />}
+                <div ref={boxRef} className="relative w-full h-full min-w-0 min-h-0">
+                  <canvas
+                    ref={canvasRef}
+                    onPointerDown={onCanvasPointerDown}
+                    onPointerMove={onCanvasPointerMove}
+                    onPointerUp={onCanvasPointerUp}
+                    onPointerCancel={onCanvasPointerUp}
+                    onContextMenu={(e) => e.preventDefault()}
+                    style={pixelStyle}
+                    className={`w-full h-full object-contain touch-none select-none ${tool || maskTool ? 'cursor-crosshair' : view.zoom > 1 ? 'cursor-grab' : ''}`}
+                  />
+                  {compare !== "side" && showOriginalOver && (
+                    <canvas ref={originalRef} style={pixelStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />
+                  )}
+                  {showClipping && <canvas ref={clipRef} style={pixelStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />}
+                  {showMaskView && <canvas ref={maskViewRef} style={pixelStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none" />}
+                  {compare === "split" && !holding && outW > 0 && (
+                    <svg viewBox={viewBox} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+                      <line x1={split * outW} y1={0} x2={split * outW} y2={outH} stroke="white" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                      <circle cx={split * outW} cy={outH / 2} r={Math.min(outW, outH) * 0.025} fill="white" />
+                    </svg>
+                  )}
+                  {selected && outW > 0 && (
+                    // same window and letterboxing as the canvas, so the ring sits on the element
+                    <svg viewBox={viewBox} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+                      <circle
+                        cx={selected.x * outW}
+                        cy={selected.y * outH}
+                        r={Math.max(selected.size, 0.02) * Math.min(outW, outH)}
+                        fill="none"
+                        stroke="white"
+                        strokeDasharray="6 4"
+                        strokeWidth={1.5}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    </svg>
+                  )}
+                  {selectedBox && outW > 0 && (
+                    <svg viewBox={viewBox} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+                      <rect
+                        x={(selectedBox.x - selectedBox.width / 2) * outW}
+                        y={(selectedBox.y - TEXT_BOX_GRAB) * outH}
+                        width={selectedBox.width * outW}
+                        height={TEXT_BOX_GRAB * 2 * outH}
+                        fill="none"
+                        stroke="white"
+                        strokeDasharray="6 4"
+                        strokeWidth={1.5}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    </svg>
+                  )}
+                  {cropDraft && outW > 0 && (
+                    <svg viewBox={viewBox} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+                      <path
+                        fillRule="evenodd"
+                        fill="rgba(0,0,0,0.55)"
+                        d={`M0 0H${outW}V${outH}H0Z M${cropDraft.x * outW} ${cropDraft.y * outH}h${cropDraft.w * outW}v${cropDraft.h * outH}h${-cropDraft.w * outW}Z`}
+                      />
+                      <rect x={cropDraft.x * outW} y={cropDraft.y * outH} width={cropDraft.w * outW} height={cropDraft.h * outH} fill="none" stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                      {[0, 1].flatMap((i) =>
+                        [0, 1].map((j) => (
+                          <circle key={`${i}${j}`} cx={(cropDraft.x + i * cropDraft.w) * outW} cy={(cropDraft.y + j * cropDraft.h) * outH} r={Math.min(outW, outH) * 0.015} fill="white" />
+                        ))
+                      )}
+                    </svg>
+                  )}
+                  {holding && <span className="absolute top-2 left-2 px-2 py-0.5 rounded-md bg-black/60 text-xs pointer-events-none">Original</span>}
+                </div>
+              </div>
             )}
           </div>
 
+          {imageBitmap && <CompareBar mode={compare} onMode={setCompare} onHold={setHolding} />}
+          {imageBitmap && (
+            <ZoomBar
+              percent={zoomScale * dpr * 100}
+              canZoomOut={view.zoom > 1}
+              canZoomIn={view.zoom < MAX_ZOOM}
+              onZoom={(f) => changeView((v, box, image) => zoomAt(v, f, { dx: 0, dy: 0 }, box, image))}
+              onFit={() => setView(FIT_VIEW)}
+              onActual={() => changeView((v, box, image) => clampView({ ...v, zoom: actualPixelsZoom(box, image, dpr) }, box, image))}
+            />
+          )}
+
+          {animation && (
+            <AnimationBar
+              frameCount={animation.frames.length}
+              index={frameIndex}
+              playing={playing}
+              duration={animation.delays.reduce((a, b) => a + b, 0)}
+              onToggle={() => setPlaying((p) => !p)}
+              onSeek={(i) => {
+                setPlaying(false);
+                setFrameIndex(i);
+              }}
+            />
+          )}
+
+          {batch.length > 0 && (
+            <BatchPanel
+              items={batch}
+              running={batchRunning}
+              onRun={handleRunBatch}
+              onClear={() => removeBatchItems(() => false)}
+              onRemove={(id) => removeBatchItems((it) => it.id !== id)}
+              onPreview={(it) => loadFile(it.file)}
+            />
+          )}
+
           {/* Mobile actions */}
           <div className="sm:hidden mt-3 grid grid-cols-3 gap-2">
-            <button onClick={handleDownload} disabled={!imageBitmap} className="px-3 py-2 rounded-lg bg-white text-black text-xs font-semibold shadow disabled:opacity-40">Download</button>
+            <button onClick={handleDownload} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-lg bg-white text-black text-xs font-semibold shadow disabled:opacity-40">Download</button>
+            <button onClick={handleCopyLink} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10">{linkCopied ? "Copied!" : "Copy link"}</button>
+            <button onClick={handleCopyImage} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10 disabled:opacity-40">{imageCopied ? "Copied!" : "Copy image"}</button>
+            {canShare && <button onClick={handleShare} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10 disabled:opacity-40">Share</button>}
             <button onClick={handleMakeAnother} className="px-3 py-2 rounded-lg bg-amber-400 text-black text-xs font-semibold shadow">Another</button>
             <button onClick={handleReset} disabled={!imageBitmap} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10 disabled:opacity-40">Reset</button>
+            <button onClick={history.undo} disabled={!history.canUndo} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10 disabled:opacity-40">↶ Undo</button>
+            <button onClick={history.redo} disabled={!history.canRedo} className="px-3 py-2 rounded-lg bg-white/10 text-xs font-medium border border-white/10 disabled:opacity-40">↷ Redo</button>
           </div>
 
+          {/* Mobile export */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Export</summary>
+            <div className="px-4 pb-4">
+              <ExportOptions settings={exportSettings} onChange={setExportSettings} source={imageBitmap} />
+            </div>
+          </details>
+
+          {/* Mobile crop & rotate */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Crop &amp; rotate</summary>
+            <div className="px-4 pb-4">
+              <TransformPanel compact {...transformPanelProps} />
+            </div>
+          </details>
+
+          {/* Mobile mask */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Fry mask</summary>
+            <div className="px-4 pb-4">
+              <MaskPanel compact {...maskPanelProps} />
+            </div>
+          </details>
+
+          {/* Mobile text */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Meme text</summary>
+            <div className="px-4 pb-4">
+              <TextPanel compact {...textPanelProps} />
+            </div>
+          </details>
+
+          {/* Mobile elements */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Eyes, stickers &amp; warps</summary>
+            <div className="px-4 pb-4">
+              <ElementsPanel compact {...elementsPanelProps} />
+            </div>
+          </details>
+
           {/* Mobile presets */}
           <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5" open>
             <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Presets</summary>
-            <div className="px-4 pb-4 flex flex-wrap gap-2">
-              <button onClick={() => applyPreset('film')} className={`px-3 py-1.5 rounded-lg border ${preset === 'film' ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>90s Film</button>
-              <button onClick={() => applyPreset('lofi')} className={`px-3 py-1.5 rounded-lg border ${preset === 'lofi' ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>Lo-Fi</button>
-              <button onClick={() => applyPreset('vhs')} className={`px-3 py-1.5 rounded-lg border ${preset === 'vhs' ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>VHS</button>
-              <button onClick={() => applyPreset('ultra')} className={`px-3 py-1.5 rounded-lg border ${preset === 'ultra' ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>Ultra</button>
-              <button onClick={() => applyPreset('none')} className={`px-3 py-1.5 rounded-lg border ${preset === 'none' ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>None</button>
+            <div className="px-4 pb-4">
+              <PresetPanel compact {...presetPanelProps} />
             </div>
           </details>
 
@@ -444,18 +1522,95 @@ export default function DeepFryStudio() {
           <details className="sm:hidden mt-2 rounded-xl border border-white/10 bg-white/5" open>
             <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Adjustments</summary>
             <div className="px-4 pb-4">
-              {[
-                { label: `Brightness: ${brightness}%`, min: 50, max: 400, step: 1, val: brightness, set: setBrightness },
-                { label: `Contrast: ${contrast}%`, min: 50, max: 250, step: 1, val: contrast, set: setContrast },
-                { label: `Saturation: ${saturation}%`, min: 0, max: 300, step: 1, val: saturation, set: setSaturation },
-                { label: `Hue: ${hue}°`, min: -180, max: 180, step: 1, val: hue, set: setHue },
-                { label: `Exposure: ${exposureEV >= 0 ? '+' : ''}${exposureEV.toFixed(1)} EV`, min: -2, max: 2, step: 0.1, val: exposureEV, set: setExposureEV },
-                { label: `Burn: ${burn}%`, min: 0, max: 100, step: 1, val: burn, set: setBurn },
-                { label: `Noise: ${(noise * 100).toFixed(0)}%`, min: 0, max: 1, step: 0.01, val: noise, set: setNoise },
-                { label: `Posterize: ${posterize || 'off'}`, min: 0, max: 8, step: 1, val: posterize, set: setPosterize },
-              ].map((s, i) => (
-                <label key={i} className="block mb-4 text-xs">
-                  <div className="mb-1 text-neutral-300">{s.label}</div>
+              {sliders(true).map((s, i) => (
+                <div key={i} className="relative">
+                  <label className="block mb-4 text-xs">
+                    <div className="mb-1 pr-6 text-neutral-300">{s.label}</div>
+                    <input
+                      type="range"
+                      min={s.min as number}
+                      max={s.max as number}
+                      step={s.step as number}
+                      value={s.val as number}
+                      onPointerDown={startScrub}
+                      onPointerUp={endScrub}
+                      onPointerCancel={endScrub}
+                      onInput={(e: any) => s.set(parseFloat(e.target.value))}
+                      className="w-full h-4 accent-white"
+                    />
+                  </label>
+                  {lockButton(s)}
+                </div>
+              ))}
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-neutral-300">Grain</span>
+                {(["mono", "color"] as NoiseMode[]).map((m) => (
+                  <button key={m} onClick={() => setParam("noiseMode")(m)} className={`px-2.5 py-1 rounded-lg border ${noiseMode === m ? 'bg-white text-black' : 'bg-white/10 border-white/10'}`}>{m === 'mono' ? 'Mono' : 'Color'}</button>
+                ))}
+                <button onClick={rerollGrain} className="ml-auto px-2.5 py-1 rounded-lg bg-white/10 border border-white/10">Reroll grain</button>
+              </div>
+              {exactColorToggle}
+            </div>
+          </details>
+
+          {/* Mobile surprise */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Surprise me</summary>
+            <div className="px-4 pb-4">
+              <RandomizePanel compact {...randomizePanelProps} />
+            </div>
+          </details>
+
+          {/* Mobile histogram */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Histogram &amp; fry level</summary>
+            <div className="px-4 pb-4">
+              <HistogramPanel compact {...histogramPanelProps} />
+            </div>
+          </details>
+
+          {/* Mobile effect stack */}
+          <details className="sm:hidden mt-3 rounded-xl border border-white/10 bg-white/5">
+            <summary className="cursor-pointer select-none px-4 py-3 text-sm font-semibold">Effect stack</summary>
+            <div className="px-4 pb-4">
+              <StackPanel compact {...stackPanelProps} />
+            </div>
+          </details>
+        </section>
+
+        {/* Desktop sidebar */}
+        <aside className="hidden sm:block lg:col-span-4 space-y-4">
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Presets</h2>
+            <PresetPanel {...presetPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Crop &amp; rotate</h2>
+            <TransformPanel {...transformPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Fry mask</h2>
+            <MaskPanel {...maskPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Meme text</h2>
+            <TextPanel {...textPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Eyes, stickers &amp; warps</h2>
+            <ElementsPanel {...elementsPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Adjustments</h2>
+            {sliders(false).map((s, i) => (
+              <div key={i} className="relative">
+                <label className="block mb-3 text-xs">
+                  <div className="mb-1 pr-6 text-neutral-300">{s.label}</div>
                   <input
                     type="range"
                     min={s.min as number}
@@ -466,61 +1621,47 @@ export default function DeepFryStudio() {
                     onPointerUp={endScrub}
                     onPointerCancel={endScrub}
                     onInput={(e: any) => s.set(parseFloat(e.target.value))}
-                    className="w-full h-4 accent-white"
+                    className="w-full accent-white"
                   />
                 </label>
+                {lockButton(s)}
+              </div>
+            ))}
+            <div className="flex items-center gap-2 text-xs">
+              <span className="text-neutral-300">Grain</span>
+              {(["mono", "color"] as NoiseMode[]).map((m) => (
+                <button key={m} onClick={() => setParam("noiseMode")(m)} className={`px-2.5 py-1 rounded-lg border ${noiseMode === m ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>{m === 'mono' ? 'Mono' : 'Color'}</button>
               ))}
+              <button onClick={rerollGrain} className="ml-auto px-2.5 py-1 rounded-lg bg-white/10 border border-white/10 hover:bg-white/20">Reroll grain</button>
             </div>
-          </details>
-        </section>
+            {exactColorToggle}
+          </div>
 
-        {/* Desktop sidebar */}
-        <aside className="hidden sm:block lg:col-span-4 space-y-4">
           <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
-            <h2 className="text-sm font-semibold mb-3">Presets</h2>
-            <div className="flex flex-wrap gap-2">
-              <button onClick={() => applyPreset('film')} className={`px-3 py-1.5 rounded-xl border ${preset === 'film' ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>90s Film Burn</button>
-              <button onClick={() => applyPreset('lofi')} className={`px-3 py-1.5 rounded-xl border ${preset === 'lofi' ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>Lo-Fi</button>
-              <button onClick={() => applyPreset('vhs')} className={`px-3 py-1.5 rounded-xl border ${preset === 'vhs' ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>VHS</button>
-              <button onClick={() => applyPreset('ultra')} className={`px-3 py-1.5 rounded-xl border ${preset === 'ultra' ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>Ultra Deep Fried</button>
-              <button onClick={() => applyPreset('none')} className={`px-3 py-1.5 rounded-xl border ${preset === 'none' ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>None</button>
-            </div>
+            <h2 className="text-sm font-semibold mb-3">Surprise me</h2>
+            <RandomizePanel {...randomizePanelProps} />
           </div>
 
           <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
-            <h2 className="text-sm font-semibold mb-3">Adjustments</h2>
-            {[
-              { label: `Brightness: ${brightness}%`, min: 50, max: 400, step: 1, val: brightness, set: setBrightness },
-              { label: `Contrast: ${contrast}%`, min: 50, max: 250, step: 1, val: contrast, set: setContrast },
-              { label: `Saturation: ${saturation}%`, min: 0, max: 300, step: 1, val: saturation, set: setSaturation },
-              { label: `Hue: ${hue}°`, min: -180, max: 180, step: 1, val: hue, set: setHue },
-              { label: `Exposure: ${exposureEV >= 0 ? '+' : ''}${exposureEV.toFixed(1)} EV`, min: -2, max: 2, step: 0.1, val: exposureEV, set: setExposureEV },
-              { label: `Burn: ${burn}%`, min: 0, max: 100, step: 1, val: burn, set: setBurn },
-              { label: `Noise: ${(noise * 100).toFixed(0)}%`, min: 0, max: 1, step: 0.01, val: noise, set: setNoise },
-              { label: `Posterize levels: ${posterize || 'off'}`, min: 0, max: 8, step: 1, val: posterize, set: setPosterize },
-            ].map((s, i) => (
-              <label key={i} className="block mb-3 text-xs">
-                <div className="mb-1 text-neutral-300">{s.label}</div>
-                <input
-                  type="range"
-                  min={s.min as number}
-                  max={s.max as number}
-                  step={s.step as number}
-                  value={s.val as number}
-                  onPointerDown={startScrub}
-                  onPointerUp={endScrub}
-                  onPointerCancel={endScrub}
-                  onInput={(e: any) => s.set(parseFloat(e.target.value))}
-                  className="w-full accent-white"
-                />
-              </label>
-            ))}
+            <h2 className="text-sm font-semibold mb-3">Histogram &amp; fry level</h2>
+            <HistogramPanel {...histogramPanelProps} />
+          </div>
+
+          <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
+            <h2 className="text-sm font-semibold mb-3">Effect stack</h2>
+            <StackPanel {...stackPanelProps} />
           </div>
 
           <div className="rounded-2xl border border-white/10 p-4 bg-white/5">
             <h2 className="text-sm font-semibold mb-3">Download</h2>
+            <div className="mb-3">
+              <ExportOptions settings={exportSettings} onChange={setExportSettings} source={imageBitmap} />
+            </div>
             <div className="grid gap-2">
-              <button onClick={handleDownload} disabled={!imageBitmap} className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-neutral-200 transition shadow disabled:opacity-40">Download JPG</button>
+              <button onClick={handleDownload} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-neutral-200 transition shadow disabled:opacity-40">{exportProgress != null ? `Frying frames… ${Math.round(exportProgress * 100)}%` : `Download ${EXPORT_FORMATS[exportSettings.format].label}`}</button>
+              <button onClick={handleCopyImage} disabled={!imageBitmap || exporting} title={canCopyImage() ? "Copy as PNG, ready to paste" : "This browser can't copy images; downloads a PNG instead"} className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10 disabled:opacity-40">{imageCopied ? "Image copied!" : "Copy image"}</button>
+              {canShare && <button onClick={handleShare} disabled={!imageBitmap || exporting} className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10 disabled:opacity-40">Share…</button>}
+              <button onClick={handleCopyLink} className="px-3 py-2 rounded-xl bg-white/10 text-sm hover:bg-white/20 border border-white/10">{linkCopied ? "Link copied!" : "Copy recipe link"}</button>
               <button onClick={handleMakeAnother} className="px-3 py-2 rounded-xl bg-amber-400 text-black text-sm font-semibold hover:bg-amber-300 transition">Make Another</button>
             </div>
           </div>
@@ -0,0 +1,91 @@
+import { readJpegInfo, stripJpegMetadata, withExif } from "./exif";
+
+function segment(marker: number, payload: number[]) {
+  const len = payload.length + 2;
+  return [0xff, marker, len >> 8, len & 0xff, ...payload];
+}
+
+// "Exif\0\0" + TIFF header + IFD0 with a single orientation entry
+function exifPayload(orientation: number, little: boolean) {
+  const u16 = (v: number) => (little ? [v & 0xff, v >> 8] : [v >> 8, v & 0xff]);
+  const u32 = (v: number) => (little ? [...u16(v & 0xffff), ...u16(v >>> 16)] : [...u16(v >>> 16), ...u16(v & 0xffff)]);
+  return [
+    0x45, 0x78, 0x69, 0x66, 0, 0,
+    ...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8),
+    ...u16(1), ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0),
+  ];
+}
+
+// Same, with an Exif sub-IFD giving the pixel size (X as LONG, Y as SHORT)
+function exifPayloadWithSize(orientation: number, width: number, height: number, little: boolean) {
+  const u16 = (v: number) => (little ? [v & 0xff, v >> 8] : [v >> 8, v & 0xff]);
+  const u32 = (v: number) => (little ? [...u16(v & 0xffff), ...u16(v >>> 16)] : [...u16(v >>> 16), ...u16(v & 0xffff)]);
+  return [
+    0x45, 0x78, 0x69, 0x66, 0, 0,
+    ...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8),
+    ...u16(2), ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u16(0x8769), ...u16(4), ...u32(1), ...u32(38),
+    ...u32(0),
+    ...u16(2), ...u16(0xa002), ...u16(4), ...u32(1), ...u32(width),
+    ...u16(0xa003), ...u16(3), ...u32(1), ...u16(height), 0, 0,
+    ...u32(0),
+  ];
+}
+
+function jpeg(orientation: number, little = false) {
+  const jfif = [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0];
+  const sof = [8, 0, 2, 0, 4, 1, 1, 0x11, 0]; // 8-bit, 2 tall, 4 wide, one component
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe0, jfif),
+    ...segment(0xe1, exifPayload(orientation, little)),
+    ...segment(0xfe, Array.from("hello", (c) => c.charCodeAt(0))),
+    ...segment(0xc0, sof),
+    ...segment(0xda, [1, 1, 0, 0, 0x3f, 0]),
+    0x12, 0x34,
+    0xff, 0xd9,
+  ]);
+}
+
+test("reads orientation in both byte orders and the stored size", () => {
+  expect(readJpegInfo(jpeg(6))).toMatchObject({ orientation: 6, width: 4, height: 2 });
+  expect(readJpegInfo(jpeg(8, true))!.orientation).toBe(8);
+  expect(readJpegInfo(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+});
+
+test("stripping drops EXIF and comments but keeps the image data", () => {
+  const src = jpeg(6);
+  const out = stripJpegMetadata(src);
+  const info = readJpegInfo(out)!;
+  expect(info.exif).toBeNull();
+  expect(info.orientation).toBe(1);
+  expect(info.width).toBe(4);
+  expect(out.length).toBe(src.length - (exifPayload(6, false).length + 4) - (5 + 4));
+  expect(Array.from(out.slice(-4))).toEqual([0x12, 0x34, 0xff, 0xd9]);
+});
+
+test("kept EXIF goes back in with orientation reset", () => {
+  const src = jpeg(6, true);
+  const out = withExif(stripJpegMetadata(src), readJpegInfo(src)!.exif!);
+  const info = readJpegInfo(out)!;
+  expect(info.exif).not.toBeNull();
+  expect(info.orientation).toBe(1);
+  // right after JFIF
+  expect(out[20]).toBe(0xff);
+  expect(out[21]).toBe(0xe1);
+});
+
+test("kept EXIF gets the written image's pixel size", () => {
+  for (const little of [false, true]) {
+    const exif = new Uint8Array(exifPayloadWithSize(6, 4000, 3000, little));
+    const out = withExif(stripJpegMetadata(jpeg(1)), exif); // 4 × 2
+    const kept = readJpegInfo(out)!.exif!;
+    const u16 = (p: number) => (little ? kept[p] | (kept[p + 1] << 8) : (kept[p] << 8) | kept[p + 1]);
+    const u32 = (p: number) => (little ? u16(p) + u16(p + 2) * 0x10000 : u16(p) * 0x10000 + u16(p + 2));
+    expect(readJpegInfo(out)!.orientation).toBe(1);
+    // Exif IFD at 6 + 38: the X value 10 bytes in (LONG), the Y value 22 bytes in (SHORT)
+    expect(u32(54)).toBe(4);
+    expect(u16(66)).toBe(2);
+  }
+});
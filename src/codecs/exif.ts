@@ -0,0 +1,168 @@
+/**
+ * JPEG metadata — just enough of the marker stream for import/export.
+ * - Reads EXIF orientation (IFD0 tag 0x0112) and the frame size from the SOF header
+ * - Strips APPn/COM segments (EXIF, XMP, comments); keeps JFIF and the ICC profile
+ * - Re-inserts an EXIF block when metadata is kept: orientation reset to 1, pixel size set to the written image
+ */
+
+export interface JpegInfo {
+  width: number; // as stored, before orientation
+  height: number;
+  orientation: number; // 1..8, 1 = as stored
+  exif: Uint8Array | null; // APP1 payload, "Exif\0\0" included
+}
+
+interface Segment {
+  marker: number;
+  start: number; // offset of the 0xFF byte
+  end: number; // offset just past the segment
+}
+
+const EXIF_ID = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+const ICC_ID = "ICC_PROFILE";
+
+export function isJpeg(bytes: Uint8Array) {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+/** Header segments up to (not including) start of scan. Stops quietly on truncated files. */
+function headerSegments(bytes: Uint8Array): Segment[] {
+  const out: Segment[] = [];
+  let p = 2;
+  while (p + 4 <= bytes.length && bytes[p] === 0xff) {
+    const marker = bytes[p + 1];
+    if (marker === 0xff) {
+      p++; // fill byte
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break; // SOS / EOI
+    const end = p + 2 + ((bytes[p + 2] << 8) | bytes[p + 3]);
+    if (end > bytes.length) break;
+    out.push({ marker, start: p, end });
+    p = end;
+  }
+  return out;
+}
+
+function startsWith(bytes: Uint8Array, at: number, id: number[]) {
+  return id.every((b, i) => bytes[at + i] === b);
+}
+
+function isExifSegment(bytes: Uint8Array, s: Segment) {
+  return s.marker === 0xe1 && startsWith(bytes, s.start + 4, EXIF_ID);
+}
+
+function isIccSegment(bytes: Uint8Array, s: Segment) {
+  return s.marker === 0xe2 && startsWith(bytes, s.start + 4, Array.from(ICC_ID, (c) => c.charCodeAt(0)));
+}
+
+/** Size, orientation and raw EXIF of a JPEG; null for anything else. */
+export function readJpegInfo(bytes: Uint8Array): JpegInfo | null {
+  if (!isJpeg(bytes)) return null;
+  const info: JpegInfo = { width: 0, height: 0, orientation: 1, exif: null };
+  for (const s of headerSegments(bytes)) {
+    if (isExifSegment(bytes, s) && !info.exif) {
+      info.exif = bytes.slice(s.start + 4, s.end);
+      info.orientation = orientationAt(info.exif) ?? 1;
+    } else if (s.marker >= 0xc0 && s.marker <= 0xcf && s.marker !== 0xc4 && s.marker !== 0xc8 && s.marker !== 0xcc) {
+      info.height = (bytes[s.start + 5] << 8) | bytes[s.start + 6];
+      info.width = (bytes[s.start + 7] << 8) | bytes[s.start + 8];
+    }
+  }
+  return info;
+}
+
+// Tags rewritten on export: orientation in IFD0, pixel size in the Exif sub-IFD (IFD0 points at it)
+const ORIENTATION = 0x0112;
+const EXIF_IFD = 0x8769;
+const PIXEL_X = 0xa002;
+const PIXEL_Y = 0xa003;
+
+interface TagSlot {
+  at: number; // offset of the (inline) value
+  long: boolean; // LONG (4 bytes) rather than SHORT
+  little: boolean;
+}
+
+/** Where a tag's value sits inside an EXIF payload (and its byte order), if present. `sub` looks in the Exif IFD. */
+function tagOffset(exif: Uint8Array, tag: number, sub = false): TagSlot | null {
+  const tiff = EXIF_ID.length;
+  if (exif.length < tiff + 8) return null;
+  const little = exif[tiff] === 0x49; // "II"
+  const u16 = (p: number) => (little ? exif[p] | (exif[p + 1] << 8) : (exif[p] << 8) | exif[p + 1]);
+  const u32 = (p: number) => (little ? u16(p) + u16(p + 2) * 0x10000 : u16(p) * 0x10000 + u16(p + 2));
+  if (u16(tiff + 2) !== 42) return null;
+  const find = (ifd: number, want: number) => {
+    if (ifd + 2 > exif.length) return null;
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > exif.length) return null;
+      if (u16(entry) === want) return entry;
+    }
+    return null;
+  };
+  let entry = find(tiff + u32(tiff + 4), sub ? EXIF_IFD : tag);
+  if (entry !== null && sub) entry = find(tiff + u32(entry + 8), tag);
+  return entry === null ? null : { at: entry + 8, long: u16(entry + 2) === 4, little };
+}
+
+function orientationAt(exif: Uint8Array): number | null {
+  const o = tagOffset(exif, ORIENTATION);
+  if (!o) return null;
+  const v = o.little ? exif[o.at] | (exif[o.at + 1] << 8) : (exif[o.at] << 8) | exif[o.at + 1];
+  return v >= 1 && v <= 8 ? v : null;
+}
+
+function writeTag(exif: Uint8Array, slot: TagSlot | null, value: number) {
+  if (!slot) return;
+  const bytes = slot.long ? [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff] : [(value >> 8) & 0xff, value & 0xff];
+  exif.set(slot.little ? bytes.reverse() : bytes, slot.at);
+}
+
+/** Drops EXIF, XMP and other APPn/COM segments. Non-JPEG input comes back untouched. */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (!isJpeg(bytes)) return bytes;
+  const drop = headerSegments(bytes).filter(
+    (s) => (s.marker === 0xfe || (s.marker >= 0xe1 && s.marker <= 0xef)) && !isIccSegment(bytes, s)
+  );
+  if (!drop.length) return bytes;
+  const parts: Uint8Array[] = [];
+  let p = 0;
+  for (const s of drop) {
+    parts.push(bytes.subarray(p, s.start));
+    p = s.end;
+  }
+  parts.push(bytes.subarray(p));
+  return concat(parts);
+}
+
+/**
+ * Strips the file, then puts `exif` back: orientation forced to 1 (pixels are already upright) and the
+ * pixel size set to the file's own, which crops, rotations and export scaling all change.
+ */
+export function withExif(bytes: Uint8Array, exif: Uint8Array): Uint8Array {
+  const clean = stripJpegMetadata(bytes);
+  if (!isJpeg(clean) || exif.length + 2 > 0xffff) return clean;
+  const payload = exif.slice();
+  const { width, height } = readJpegInfo(clean)!;
+  writeTag(payload, tagOffset(payload, ORIENTATION), 1);
+  writeTag(payload, tagOffset(payload, PIXEL_X, true), width);
+  writeTag(payload, tagOffset(payload, PIXEL_Y, true), height);
+  // after SOI and JFIF, where readers expect it
+  const app0 = headerSegments(clean).find((s) => s.marker === 0xe0);
+  const at = app0 ? app0.end : 2;
+  const len = payload.length + 2;
+  const header = new Uint8Array([0xff, 0xe1, len >> 8, len & 0xff]);
+  return concat([clean.subarray(0, at), header, payload, clean.subarray(at)]);
+}
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+}
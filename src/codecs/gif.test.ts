@@ -0,0 +1,80 @@
+import { decodeGif } from "./gifDecoder";
+import { encodeGif, lzwEncode } from "./gifEncoder";
+import { medianCut } from "./quantize";
+
+function solid(width: number, height: number, rgb: [number, number, number]) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([...rgb, 255], i);
+  }
+  return { data, width, height };
+}
+
+function gradient(width: number, height: number) {
+  const img = solid(width, height, [0, 0, 0]);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      img.data[i] = (x * 255) / (width - 1);
+      img.data[i + 1] = (y * 255) / (height - 1);
+      img.data[i + 2] = ((x ^ y) * 16) & 255;
+    }
+  }
+  return img;
+}
+
+describe("gif codec", () => {
+  test("round-trips frames, size and delays", () => {
+    const frames = [
+      { image: solid(8, 6, [255, 0, 0]), delay: 100 },
+      { image: solid(8, 6, [0, 0, 255]), delay: 250 },
+    ];
+    const gif = decodeGif(encodeGif(frames));
+    expect(gif.width).toBe(8);
+    expect(gif.height).toBe(6);
+    expect(gif.frames.map((f) => f.delay)).toEqual([100, 250]);
+    expect(Array.from(gif.frames[0].image.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(gif.frames[1].image.data.slice(-4))).toEqual([0, 0, 255, 255]);
+  });
+
+  test("quantized image stays close to the source", () => {
+    const src = gradient(64, 48);
+    const [frame] = decodeGif(encodeGif([{ image: src, delay: 100 }])).frames;
+    let err = 0;
+    for (let i = 0; i < src.data.length; i++) err += Math.abs(src.data[i] - frame.image.data[i]);
+    expect(err / src.data.length).toBeLessThan(12);
+  });
+
+  test("LZW survives code-size growth and table resets", () => {
+    // pseudo-random indices fill the 4096-entry table several times
+    const indices = new Uint8Array(40000);
+    let s = 7;
+    for (let i = 0; i < indices.length; i++) {
+      s = (s * 1103515245 + 12345) >>> 0;
+      indices[i] = (s >>> 16) & 255;
+    }
+    const palette = new Uint8Array(256 * 3).map((_, i) => Math.floor(i / 3));
+    const data = lzwEncode(indices, 8);
+
+    // wrap in a minimal GIF so the decoder path is exercised end to end
+    const bytes = Array.from("GIF89a", (c) => c.charCodeAt(0));
+    bytes.push(200, 0, 200, 0, 0xf7, 0, 0);
+    bytes.push(...Array.from(palette), 0x2c, 0, 0, 0, 0, 200, 0, 200, 0, 0, 8);
+    for (let i = 0; i < data.length; i += 255) {
+      const chunk = data.subarray(i, i + 255);
+      bytes.push(chunk.length, ...Array.from(chunk));
+    }
+    bytes.push(0, 0x3b);
+
+    const [frame] = decodeGif(new Uint8Array(bytes)).frames;
+    for (let i = 0; i < indices.length; i += 997) {
+      expect(frame.image.data[i * 4]).toBe(indices[i]);
+    }
+  });
+
+  test("median cut keeps distinct colors when there are few", () => {
+    const palette = medianCut([0xff0000, 0xff0000, 0x00ff00, 0x0000ff], 256);
+    expect(palette.length / 3).toBe(3);
+  });
+});
+
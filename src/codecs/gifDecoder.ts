@@ -0,0 +1,216 @@
+import { PixelBuffer } from "../pipeline/fry";
+
+/**
+ * GIF decoder — all frames, fully composited.
+ * - GIF87a/89a, global + local color tables, interlacing, transparency
+ * - Honors disposal methods 1–3, so each frame is the full picture
+ * - Pure: bytes in, RGBA buffers out
+ */
+
+export interface GifFrame {
+  image: PixelBuffer;
+  delay: number; // ms
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  frames: GifFrame[];
+}
+
+// Browsers clamp tiny delays the same way
+const MIN_DELAY_MS = 20;
+const DEFAULT_DELAY_MS = 100;
+
+export function isGif(bytes: Uint8Array) {
+  return bytes.length > 6 && String.fromCharCode(...Array.from(bytes.subarray(0, 6))).startsWith("GIF8");
+}
+
+/** Decodes up to `maxFrames` frames; the rest of the file is ignored. */
+export function decodeGif(bytes: Uint8Array, maxFrames = Infinity): DecodedGif {
+  if (!isGif(bytes)) throw new Error("Not a GIF file");
+  let pos = 6;
+  const u8 = () => bytes[pos++];
+  const u16 = () => {
+    const v = bytes[pos] | (bytes[pos + 1] << 8);
+    pos += 2;
+    return v;
+  };
+  const readTable = (size: number) => {
+    const t = bytes.subarray(pos, pos + size * 3);
+    pos += size * 3;
+    return t;
+  };
+  const skipSubBlocks = () => {
+    let len;
+    while ((len = u8())) pos += len;
+  };
+
+  const width = u16();
+  const height = u16();
+  const lsd = u8();
+  u8(); // background index (we dispose to transparent, like browsers)
+  u8(); // aspect
+  const globalTable = lsd & 0x80 ? readTable(1 << ((lsd & 7) + 1)) : null;
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: GifFrame[] = [];
+  let gce = { disposal: 0, delay: 0, transparent: -1 };
+
+  while (pos < bytes.length && frames.length < maxFrames) {
+    const block = u8();
+    if (block === 0x3b) break; // trailer
+    if (block === 0x21) {
+      const label = u8();
+      if (label === 0xf9) {
+        u8(); // block size (4)
+        const packed = u8();
+        const delay = u16();
+        const tIndex = u8();
+        u8(); // terminator
+        gce = { disposal: (packed >> 2) & 7, delay: delay * 10, transparent: packed & 1 ? tIndex : -1 };
+      } else {
+        skipSubBlocks();
+      }
+      continue;
+    }
+    if (block !== 0x2c) throw new Error(`Corrupt GIF (unexpected block 0x${block?.toString(16)})`);
+
+    const left = u16();
+    const top = u16();
+    const fw = u16();
+    const fh = u16();
+    const packed = u8();
+    const table = packed & 0x80 ? readTable(1 << ((packed & 7) + 1)) : globalTable;
+    if (!table) throw new Error("Corrupt GIF (no color table)");
+    const interlaced = !!(packed & 0x40);
+
+    const minCodeSize = u8();
+    const start = pos;
+    let dataLen = 0;
+    for (let len = bytes[pos]; len; len = bytes[pos]) {
+      dataLen += len;
+      pos += len + 1;
+    }
+    pos++; // block terminator
+    const data = new Uint8Array(dataLen);
+    for (let p = start, o = 0, len = bytes[p]; len; len = bytes[p]) {
+      data.set(bytes.subarray(p + 1, p + 1 + len), o);
+      o += len;
+      p += len + 1;
+    }
+    const indices = lzwDecode(data, minCodeSize, fw * fh);
+
+    const saved = gce.disposal === 3 ? canvas.slice() : null;
+    const rows = interlaced ? interlaceRows(fh) : null;
+    for (let y = 0; y < fh; y++) {
+      const cy = top + (rows ? rows[y] : y);
+      if (cy >= height) continue;
+      for (let x = 0; x < fw; x++) {
+        const cx = left + x;
+        if (cx >= width) continue;
+        const ci = indices[y * fw + x];
+        if (ci === gce.transparent) continue;
+        const o = (cy * width + cx) * 4;
+        canvas[o] = table[ci * 3];
+        canvas[o + 1] = table[ci * 3 + 1];
+        canvas[o + 2] = table[ci * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    }
+
+    frames.push({
+      image: { data: canvas.slice(), width, height },
+      delay: gce.delay >= MIN_DELAY_MS ? gce.delay : DEFAULT_DELAY_MS,
+    });
+
+    // disposal applies before the next frame is drawn
+    if (gce.disposal === 2) {
+      for (let y = top; y < Math.min(height, top + fh); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + fw)) * 4);
+      }
+    } else if (saved) {
+      canvas.set(saved);
+    }
+    gce = { disposal: 0, delay: 0, transparent: -1 };
+  }
+
+  if (!frames.length) throw new Error("GIF has no frames");
+  return { width, height, frames };
+}
+
+// Row order of the 4-pass interlace: output row i → image row rows[i]
+function interlaceRows(h: number) {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < h; y += step) rows.push(y);
+  }
+  return rows;
+}
+
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clear; i++) {
+    suffix[i] = i;
+    first[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = clear + 2;
+  let prev = -1;
+  let bits = 0;
+  let acc = 0;
+  let op = 0;
+
+  for (let i = 0; i < data.length && op < pixelCount; ) {
+    while (bits < codeSize && i < data.length) {
+      acc |= data[i++] << bits;
+      bits += 8;
+    }
+    if (bits < codeSize) break;
+    const code = acc & ((1 << codeSize) - 1);
+    acc >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = clear + 2;
+      prev = -1;
+      continue;
+    }
+    if (code === eoi) break;
+
+    let sp = 0;
+    let c = code;
+    if (prev >= 0 && code >= next) {
+      // KwKwK case: code not in the table yet
+      stack[sp++] = first[prev];
+      c = prev;
+    } else if (code >= next) {
+      break; // corrupt
+    }
+    while (c >= clear) {
+      stack[sp++] = suffix[c];
+      c = prefix[c];
+    }
+    stack[sp++] = c;
+
+    if (prev >= 0 && next < 4096) {
+      prefix[next] = prev;
+      suffix[next] = c;
+      first[next] = first[prev];
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    prev = code;
+
+    while (sp && op < pixelCount) out[op++] = stack[--sp];
+  }
+  return out;
+}
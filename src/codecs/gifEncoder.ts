@@ -0,0 +1,170 @@
+import { PixelBuffer } from "../pipeline/fry";
+import { buildPalette, createPaletteMapper } from "./quantize";
+
+/**
+ * Animated GIF encoder.
+ * - One 256-color global palette (median cut over all frames)
+ * - Full-frame images, LZW-compressed, looped forever via NETSCAPE2.0
+ * - Delays are in ms and rounded to GIF's 1/100 s
+ */
+
+export interface GifEncodeFrame {
+  image: PixelBuffer;
+  delay: number; // ms
+}
+
+export function encodeGif(frames: GifEncodeFrame[], loop = 0): Uint8Array {
+  if (!frames.length) throw new Error("No frames to encode");
+  const { width, height } = frames[0].image;
+  const palette = buildPalette(frames.map((f) => f.image));
+  const map = createPaletteMapper(palette);
+  const out = new ByteWriter();
+
+  // header + logical screen descriptor with a 256-entry global table
+  out.string("GIF89a");
+  out.u16(width);
+  out.u16(height);
+  out.byte(0xf7);
+  out.byte(0); // background
+  out.byte(0); // aspect
+  const table = new Uint8Array(256 * 3);
+  table.set(palette);
+  out.bytes(table);
+
+  if (frames.length > 1) {
+    out.byte(0x21);
+    out.byte(0xff);
+    out.byte(11);
+    out.string("NETSCAPE2.0");
+    out.byte(3);
+    out.byte(1);
+    out.u16(loop);
+    out.byte(0);
+  }
+
+  for (const frame of frames) {
+    if (frame.image.width !== width || frame.image.height !== height) {
+      throw new Error("All GIF frames must be the same size");
+    }
+    // graphic control: disposal 1 ("do not dispose", every frame is whole), no transparency
+    out.byte(0x21);
+    out.byte(0xf9);
+    out.byte(4);
+    out.byte(0x04);
+    out.u16(Math.max(2, Math.round(frame.delay / 10)));
+    out.byte(0);
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0);
+
+    out.byte(8); // min code size
+    const data = lzwEncode(map(frame.image), 8);
+    for (let i = 0; i < data.length; i += 255) {
+      const chunk = data.subarray(i, i + 255);
+      out.byte(chunk.length);
+      out.bytes(chunk);
+    }
+    out.byte(0);
+  }
+
+  out.byte(0x3b);
+  return out.result();
+}
+
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new ByteWriter();
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = clear + 2;
+  let dict = new Map<number, number>();
+  let acc = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.byte(acc & 255);
+      acc >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  if (!indices.length) {
+    emit(eoi);
+    if (bits) out.byte(acc & 255);
+    return out.result();
+  }
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const found = dict.get(key);
+    if (found !== undefined) {
+      prefix = found;
+      continue;
+    }
+    emit(prefix);
+    if (next < 4096) {
+      // the decoder grows its code size one code later than we add entries
+      if (next === 1 << codeSize) codeSize++;
+      dict.set(key, next++);
+    } else {
+      emit(clear);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      next = clear + 2;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (bits) out.byte(acc & 255);
+  return out.result();
+}
+
+class ByteWriter {
+  private buf = new Uint8Array(4096);
+  private len = 0;
+
+  private grow(n: number) {
+    if (this.len + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.len + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.len));
+    this.buf = next;
+  }
+
+  byte(v: number) {
+    this.grow(1);
+    this.buf[this.len++] = v;
+  }
+
+  u16(v: number) {
+    this.byte(v & 255);
+    this.byte((v >> 8) & 255);
+  }
+
+  bytes(b: Uint8Array) {
+    this.grow(b.length);
+    this.buf.set(b, this.len);
+    this.len += b.length;
+  }
+
+  string(s: string) {
+    for (let i = 0; i < s.length; i++) this.byte(s.charCodeAt(i));
+  }
+
+  result() {
+    return this.buf.slice(0, this.len);
+  }
+}
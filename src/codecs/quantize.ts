@@ -0,0 +1,110 @@
+import { PixelBuffer } from "../pipeline/fry";
+
+/**
+ * Palette quantization for indexed formats (GIF).
+ * - Median cut over a pixel sample from every frame → one shared palette (no flicker)
+ * - Nearest-color mapping cached on a 5-bit-per-channel grid
+ */
+
+const SAMPLE_BUDGET = 60000;
+
+/** RGB triplets, at most `maxColors` entries. */
+export function buildPalette(frames: PixelBuffer[], maxColors = 256): Uint8Array {
+  const total = frames.reduce((n, f) => n + f.width * f.height, 0);
+  const stride = Math.max(1, Math.floor(total / SAMPLE_BUDGET));
+  const samples: number[] = [];
+  let k = 0;
+  for (const f of frames) {
+    const d = f.data;
+    for (let i = 0; i < d.length; i += 4, k++) {
+      if (k % stride) continue;
+      samples.push((d[i] << 16) | (d[i + 1] << 8) | d[i + 2]);
+    }
+  }
+  return medianCut(samples, maxColors);
+}
+
+export function medianCut(colors: number[], maxColors: number): Uint8Array {
+  if (!colors.length) return new Uint8Array(3);
+  let boxes: number[][] = [colors];
+
+  while (boxes.length < maxColors) {
+    // split the box with the widest channel range
+    let best = -1;
+    let bestRange = 0;
+    let bestShift = 0;
+    boxes.forEach((box, bi) => {
+      if (box.length < 2) return;
+      for (const shift of [16, 8, 0]) {
+        let lo = 255;
+        let hi = 0;
+        for (const c of box) {
+          const v = (c >> shift) & 255;
+          if (v < lo) lo = v;
+          if (v > hi) hi = v;
+        }
+        if (hi - lo > bestRange) {
+          bestRange = hi - lo;
+          best = bi;
+          bestShift = shift;
+        }
+      }
+    });
+    if (best < 0) break; // every box is a single color
+
+    const box = boxes[best].sort((a, b) => ((a >> bestShift) & 255) - ((b >> bestShift) & 255));
+    const mid = box.length >> 1;
+    boxes = [...boxes.slice(0, best), box.slice(0, mid), box.slice(mid), ...boxes.slice(best + 1)];
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const c of box) {
+      r += (c >> 16) & 255;
+      g += (c >> 8) & 255;
+      b += c & 255;
+    }
+    palette[i * 3] = Math.round(r / box.length);
+    palette[i * 3 + 1] = Math.round(g / box.length);
+    palette[i * 3 + 2] = Math.round(b / box.length);
+  });
+  return palette;
+}
+
+export function nearestIndex(palette: Uint8Array, r: number, g: number, b: number) {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < palette.length; i += 3) {
+    const dr = palette[i] - r;
+    const dg = palette[i + 1] - g;
+    const db = palette[i + 2] - b;
+    const dist = dr * dr * 2 + dg * dg * 4 + db * db * 3; // rough perceptual weights
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = i / 3;
+    }
+  }
+  return best;
+}
+
+/** Creates a mapper that can be reused across frames sharing one palette. */
+export function createPaletteMapper(palette: Uint8Array) {
+  const cache = new Int16Array(32768).fill(-1);
+  return (img: PixelBuffer): Uint8Array => {
+    const d = img.data;
+    const out = new Uint8Array(img.width * img.height);
+    for (let i = 0, p = 0; i < d.length; i += 4, p++) {
+      const key = ((d[i] >> 3) << 10) | ((d[i + 1] >> 3) << 5) | (d[i + 2] >> 3);
+      let idx = cache[key];
+      if (idx < 0) {
+        // match against the center of the 8×8×8 cell
+        idx = cache[key] = nearestIndex(palette, (d[i] & 0xf8) | 4, (d[i + 1] & 0xf8) | 4, (d[i + 2] & 0xf8) | 4);
+      }
+      out[p] = idx;
+    }
+    return out;
+  };
+}
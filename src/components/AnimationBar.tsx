@@ -0,0 +1,30 @@
+import React from "react";
+
+interface Props {
+  frameCount: number;
+  index: number;
+  playing: boolean;
+  duration: number; // ms, whole loop
+  onToggle(): void;
+  onSeek(index: number): void;
+}
+
+export default function AnimationBar({ frameCount, index, playing, duration, onToggle, onSeek }: Props) {
+  return (
+    <div className="mt-3 flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-xs">
+      <button onClick={onToggle} className="px-2.5 py-1 rounded-lg bg-white/10 border border-white/10 hover:bg-white/20 w-16">{playing ? "Pause" : "Play"}</button>
+      <input
+        type="range"
+        min={0}
+        max={frameCount - 1}
+        step={1}
+        value={index}
+        onInput={(e: any) => onSeek(parseInt(e.target.value, 10))}
+        className="flex-1 accent-white"
+      />
+      <span className="text-neutral-300 tabular-nums whitespace-nowrap">
+        {index + 1}/{frameCount} · {(duration / 1000).toFixed(1)}s
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from "react";
+import { BatchItem } from "../pipeline/batch";
+
+interface Props {
+  items: BatchItem[];
+  running: boolean;
+  onRun(): void;
+  onClear(): void;
+  onRemove(id: string): void;
+  onPreview(item: BatchItem): void;
+}
+
+export default function BatchPanel({ items, running, onRun, onClear, onRemove, onPreview }: Props) {
+  const done = items.filter((i) => i.status === "done").length;
+  const failed = items.filter((i) => i.status === "failed").length;
+
+  return (
+    <div className="mt-3 rounded-xl sm:rounded-2xl border border-white/10 p-3 sm:p-4 bg-white/5">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-sm font-semibold">
+          Batch · {items.length} image{items.length === 1 ? "" : "s"}
+          {(done > 0 || failed > 0) && <span className="ml-2 text-xs font-normal text-neutral-400">{done} done{failed ? `, ${failed} failed` : ""}</span>}
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={onClear} disabled={running} className="px-3 py-1.5 rounded-lg bg-white/10 text-xs border border-white/10 hover:bg-white/20 disabled:opacity-40">Clear</button>
+          <button onClick={onRun} disabled={running || !items.length} className="px-3 py-1.5 rounded-lg bg-white text-black text-xs font-semibold hover:bg-neutral-200 disabled:opacity-40">{running ? "Frying…" : "Fry all → ZIP"}</button>
+        </div>
+      </div>
+      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+        {items.map((item) => (
+          <div key={item.id} className="relative group" title={item.error ? `${item.file.name}: ${item.error}` : item.file.name}>
+            <button onClick={() => onPreview(item)} className={`block w-full aspect-square rounded-lg overflow-hidden border ${item.status === "failed" ? 'border-rose-500' : 'border-white/10'}`}>
+              <img src={item.thumbUrl} alt={item.file.name} className={`w-full h-full object-cover ${item.status === "done" ? '' : 'opacity-70'}`} />
+            </button>
+            {item.status !== "queued" && (
+              <div className="absolute inset-x-1 bottom-1 h-1 rounded bg-black/50 overflow-hidden">
+                <div className={`h-full ${item.status === "failed" ? 'bg-rose-500' : 'bg-amber-400'}`} style={{ width: `${Math.round(item.progress * 100)}%` }} />
+              </div>
+            )}
+            {item.status === "failed" && <div className="absolute top-1 left-1 px-1 rounded bg-rose-500 text-[10px] font-semibold">failed</div>}
+            {!running && (
+              <button onClick={() => onRemove(item.id)} aria-label={`Remove ${item.file.name}`} className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-neutral-700 text-[10px] leading-4 text-white hover:bg-rose-500">×</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
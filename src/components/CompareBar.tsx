@@ -0,0 +1,40 @@
+import React from "react";
+
+export type CompareMode = "off" | "split" | "side";
+
+interface Props {
+  mode: CompareMode;
+  onMode(mode: CompareMode): void;
+  onHold(holding: boolean): void;
+}
+
+const MODES: { mode: CompareMode; label: string }[] = [
+  { mode: "off", label: "Fried" },
+  { mode: "split", label: "Split" },
+  { mode: "side", label: "Side by side" },
+];
+
+export default function CompareBar({ mode, onMode, onHold }: Props) {
+  const release = () => onHold(false);
+  return (
+    <div className="mt-3 flex items-center gap-1.5 text-xs">
+      <span className="text-neutral-300 mr-1">Compare</span>
+      {MODES.map((m) => (
+        <button key={m.mode} onClick={() => onMode(m.mode)} className={`px-2.5 py-1 rounded-lg border ${mode === m.mode ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>{m.label}</button>
+      ))}
+      <button
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onHold(true);
+        }}
+        onPointerUp={release}
+        onPointerCancel={release}
+        onContextMenu={(e) => e.preventDefault()}
+        disabled={mode === "side"}
+        className="ml-auto px-2.5 py-1 rounded-lg bg-white/10 border border-white/10 hover:bg-white/20 select-none touch-none disabled:opacity-40"
+      >
+        Hold for original
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from "react";
+import { ELEMENT_DEFAULTS, ElementType, EMOJI_CHOICES, PlacedElement } from "../pipeline/elements";
+
+interface Props {
+  tool: ElementType | null; // null = select/move
+  emoji: string;
+  selected: PlacedElement | null;
+  count: number;
+  compact?: boolean; // mobile layout
+  onTool(tool: ElementType | null): void;
+  onEmoji(emoji: string): void;
+  onChange(patch: Partial<PlacedElement>): void;
+  onDelete(): void;
+  onClear(): void;
+  onScrubStart(): void;
+  onScrubEnd(): void;
+}
+
+export default function ElementsPanel(props: Props) {
+  const { tool, emoji, selected, count, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const chip = (active: boolean) =>
+    `px-2.5 py-1 ${round} border ${active ? 'bg-white text-black' : `bg-white/10 border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}`;
+  const showEmoji = tool === "emoji" || selected?.type === "emoji";
+  const scrub = { onPointerDown: props.onScrubStart, onPointerUp: props.onScrubEnd, onPointerCancel: props.onScrubEnd };
+
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => props.onTool(null)} className={chip(tool === null)}>Move</button>
+        {(Object.keys(ELEMENT_DEFAULTS) as ElementType[]).map((t) => (
+          <button key={t} onClick={() => props.onTool(t)} className={chip(tool === t)}>{ELEMENT_DEFAULTS[t].label}</button>
+        ))}
+      </div>
+      <p className="mt-2 text-neutral-400">{tool ? "Tap the image to place." : "Drag to move, Delete to remove."}</p>
+
+      {showEmoji && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {EMOJI_CHOICES.map((e) => {
+            const active = selected?.type === "emoji" ? selected.emoji === e : emoji === e;
+            return (
+              <button
+                key={e}
+                onClick={() => (selected?.type === "emoji" ? props.onChange({ emoji: e }) : props.onEmoji(e))}
+                className={`h-8 w-8 ${round} text-base border ${active ? 'bg-white/80 border-white' : 'bg-white/10 border-white/10'}`}
+              >
+                {e}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {selected && (
+        <div className="mt-3">
+          <label className="block mb-2">
+            <div className="mb-1 text-neutral-300">Size: {Math.round(selected.size * 100)}%</div>
+            <input type="range" min={0.01} max={0.5} step={0.005} value={selected.size} {...scrub} onInput={(e: any) => props.onChange({ size: parseFloat(e.target.value) })} className="w-full accent-white" />
+          </label>
+          {selected.type === "flare" && (
+            <label className="block mb-2">
+              <div className="mb-1 text-neutral-300">Glow: {Math.round(selected.intensity * 100)}%</div>
+              <input type="range" min={0} max={1} step={0.01} value={selected.intensity} {...scrub} onInput={(e: any) => props.onChange({ intensity: parseFloat(e.target.value) })} className="w-full accent-white" />
+            </label>
+          )}
+          {selected.type === "warp" && (
+            <label className="block mb-2">
+              <div className="mb-1 text-neutral-300">
+                {selected.strength < 0 ? "Pinch" : "Bulge"}: {Math.round(Math.abs(selected.strength) * 100)}%
+              </div>
+              <input type="range" min={-1} max={1} step={0.01} value={selected.strength} {...scrub} onInput={(e: any) => props.onChange({ strength: parseFloat(e.target.value) })} className="w-full accent-white" />
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="mt-2 flex gap-2">
+        <button onClick={props.onDelete} disabled={!selected} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 disabled:opacity-40`}>Delete</button>
+        <button onClick={props.onClear} disabled={!count} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 disabled:opacity-40`}>Clear all ({count})</button>
+      </div>
+    </div>
+  );
+}
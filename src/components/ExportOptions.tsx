@@ -0,0 +1,82 @@
+import React from "react";
+import { EXPORT_FORMATS, ExportFormat, ExportSettings, ExportSize, MAX_EXPORT_EDGE, resolveExportSize } from "../pipeline/export";
+
+interface Props {
+  settings: ExportSettings;
+  onChange(settings: ExportSettings): void;
+  source: { width: number; height: number } | null;
+}
+
+const MODES: { mode: ExportSize["mode"]; label: string }[] = [
+  { mode: "original", label: "Original" },
+  { mode: "preview", label: "Preview" },
+  { mode: "scale", label: "Scale" },
+  { mode: "longEdge", label: "Long edge" },
+];
+
+export default function ExportOptions({ settings, onChange, source }: Props) {
+  const { size, format, quality, filename, stripMetadata } = settings;
+  const out = source ? resolveExportSize(source.width, source.height, size) : null;
+  const set = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+
+  function pick(mode: ExportSize["mode"]) {
+    if (mode === "scale") set({ size: { mode, scale: 2 } });
+    else if (mode === "longEdge") set({ size: { mode, px: 2048 } });
+    else set({ size: { mode } });
+  }
+
+  return (
+    <div className="text-xs space-y-3">
+      <div>
+        <div className="mb-1 text-neutral-300">Format</div>
+        <div className="flex flex-wrap gap-1.5">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+            <button key={f} onClick={() => set({ format: f })} className={`px-2.5 py-1 rounded-lg border ${format === f ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>{EXPORT_FORMATS[f].label}</button>
+          ))}
+        </div>
+      </div>
+
+      {EXPORT_FORMATS[format].lossy && (
+        <label className="block">
+          <div className="mb-1 text-neutral-300">Quality: {Math.round(quality * 100)}%</div>
+          <input type="range" min={0.1} max={1} step={0.01} value={quality} onInput={(e: any) => set({ quality: parseFloat(e.target.value) })} className="w-full accent-white" />
+        </label>
+      )}
+
+      <div>
+        <div className="mb-1 text-neutral-300">Size{out ? `: ${out.width}×${out.height}` : ""}</div>
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {MODES.map((m) => (
+            <button key={m.mode} onClick={() => pick(m.mode)} className={`px-2.5 py-1 rounded-lg border ${size.mode === m.mode ? 'bg-white text-black' : 'bg-white/10 border-white/10 hover:bg-white/20'}`}>{m.label}</button>
+          ))}
+        </div>
+        {size.mode === "scale" && (
+          <label className="block">
+            <div className="mb-1 text-neutral-300">Scale: {size.scale.toFixed(2)}×</div>
+            <input type="range" min={0.25} max={4} step={0.25} value={size.scale} onInput={(e: any) => set({ size: { mode: "scale", scale: parseFloat(e.target.value) } })} className="w-full accent-white" />
+          </label>
+        )}
+        {size.mode === "longEdge" && (
+          <label className="flex items-center gap-2">
+            <span className="text-neutral-300">Long edge</span>
+            <input type="number" min={16} max={MAX_EXPORT_EDGE} step={1} value={size.px} onChange={(e) => set({ size: { mode: "longEdge", px: Math.max(16, Math.min(MAX_EXPORT_EDGE, parseInt(e.target.value, 10) || 16)) } })} className="w-24 px-2 py-1 rounded-lg bg-white/10 border border-white/10" />
+            <span className="text-neutral-400">px</span>
+          </label>
+        )}
+      </div>
+
+      {format === "jpeg" && (
+        <label className="flex items-center gap-1.5 text-neutral-300">
+          <input type="checkbox" checked={stripMetadata} onChange={(e) => set({ stripMetadata: e.target.checked })} className="accent-white" />
+          Strip metadata (camera, location){stripMetadata ? "" : " — off: copies the original photo's EXIF"}
+        </label>
+      )}
+
+      <label className="block">
+        <div className="mb-1 text-neutral-300">Filename</div>
+        <input type="text" value={filename} onChange={(e) => set({ filename: e.target.value })} className="w-full px-2 py-1 rounded-lg bg-white/10 border border-white/10" />
+        <div className="mt-1 text-neutral-500">{"{name} {preset} {timestamp} {date} {w} {h}"} · .{EXPORT_FORMATS[format].ext}</div>
+      </label>
+    </div>
+  );
+}
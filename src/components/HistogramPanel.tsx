@@ -0,0 +1,75 @@
+import React from "react";
+import { FrameAnalysis } from "../pipeline/analysis";
+
+interface Props {
+  analysis: FrameAnalysis | null; // of the frame on screen
+  showClipping: boolean;
+  target: number; // fry level to search for, 0..100
+  searching: boolean;
+  compact?: boolean; // mobile layout
+  onShowClipping(show: boolean): void;
+  onTarget(target: number): void;
+  onRandomize(): void;
+}
+
+const CHANNELS: { key: "r" | "g" | "b" | "luma"; color: string }[] = [
+  { key: "r", color: "rgba(255,70,70,0.55)" },
+  { key: "g", color: "rgba(70,255,110,0.55)" },
+  { key: "b", color: "rgba(80,140,255,0.55)" },
+  { key: "luma", color: "rgba(255,255,255,0.35)" },
+];
+
+// Bins 0..255 across, square-root counts up; the clipped end bins are left out of the scale so they can't flatten the rest
+function histogramPath(bins: Uint32Array, peak: number) {
+  let d = "M0 64";
+  for (let v = 0; v < 256; v++) d += ` L${v} ${64 - Math.min(64, (Math.sqrt(bins[v]) / peak) * 64)}`;
+  return `${d} L255 64 Z`;
+}
+
+export default function HistogramPanel(props: Props) {
+  const { analysis, showClipping, target, searching, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const h = analysis?.histogram;
+  let peak = 1;
+  if (h) for (const c of CHANNELS) for (let v = 1; v < 255; v++) peak = Math.max(peak, Math.sqrt(h[c.key][v]));
+  const fry = analysis?.fry;
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+  return (
+    <div className="text-xs">
+      <svg viewBox="0 0 255 64" preserveAspectRatio="none" className={`w-full h-20 ${round} bg-black/40`}>
+        {h && CHANNELS.map((c) => <path key={c.key} d={histogramPath(h[c.key], peak)} fill={c.color} style={{ mixBlendMode: "screen" }} />)}
+      </svg>
+      {fry && (
+        <div className="mt-1 flex justify-between text-neutral-400">
+          <span>Shadows clipped: {pct(fry.shadows)}</span>
+          <span>Highlights clipped: {pct(fry.highlights)}</span>
+        </div>
+      )}
+
+      <div className="mt-3">
+        <div className="mb-1 flex justify-between text-neutral-300">
+          <span>Fry level</span>
+          <span className="font-semibold">{fry ? fry.score : "–"}</span>
+        </div>
+        <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-amber-300 via-orange-500 to-red-600" style={{ width: `${fry?.score ?? 0}%` }} />
+        </div>
+        {fry && <div className="mt-1 text-neutral-400">Saturation {pct(fry.saturation)} · edges {pct(fry.edges)}</div>}
+      </div>
+
+      <label className="mt-3 flex items-center gap-1.5 text-neutral-300">
+        <input type="checkbox" checked={showClipping} onChange={(e) => props.onShowClipping(e.target.checked)} className="accent-white" />
+        Show clipping <span className="text-neutral-500">(red = 255, blue = 0)</span>
+      </label>
+
+      <label className="block mt-3">
+        <div className="mb-1 text-neutral-300">Target fry level: {target}</div>
+        <input type="range" min={0} max={100} step={1} value={target} onInput={(e: any) => props.onTarget(parseFloat(e.target.value))} className="w-full accent-white" />
+      </label>
+      <button onClick={props.onRandomize} disabled={searching} className={`mt-2 px-2.5 py-1 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'} disabled:opacity-40`}>
+        {searching ? "Searching…" : `Randomize until fry ≥ ${target}`}
+      </button>
+    </div>
+  );
+}
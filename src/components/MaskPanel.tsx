@@ -0,0 +1,75 @@
+import React from "react";
+
+export type MaskTool = "brush" | "erase" | "radial" | "linear";
+
+interface Props {
+  tool: MaskTool | null; // null = not painting
+  brush: { size: number; hardness: number };
+  invert: boolean;
+  showMask: boolean;
+  count: number; // shapes in the mask
+  compact?: boolean; // mobile layout
+  onTool(tool: MaskTool | null): void;
+  onBrush(patch: Partial<{ size: number; hardness: number }>): void;
+  onInvert(invert: boolean): void;
+  onShowMask(show: boolean): void;
+  onClear(): void;
+}
+
+const TOOLS: { tool: MaskTool; label: string }[] = [
+  { tool: "brush", label: "Brush" },
+  { tool: "erase", label: "Erase" },
+  { tool: "radial", label: "Radial" },
+  { tool: "linear", label: "Linear" },
+];
+
+const HINTS: Record<MaskTool, string> = {
+  brush: "Paint where the fry should go.",
+  erase: "Paint to take the fry back off.",
+  radial: "Drag out from the center.",
+  linear: "Drag from fried toward clean.",
+};
+
+export default function MaskPanel(props: Props) {
+  const { tool, brush, invert, showMask, count, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const chip = (active: boolean) =>
+    `px-2.5 py-1 ${round} border ${active ? 'bg-white text-black' : `bg-white/10 border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}`;
+
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => props.onTool(null)} className={chip(tool === null)}>Off</button>
+        {TOOLS.map((t) => (
+          <button key={t.tool} onClick={() => props.onTool(t.tool)} className={chip(tool === t.tool)}>{t.label}</button>
+        ))}
+      </div>
+      <p className="mt-2 text-neutral-400">{tool ? HINTS[tool] : count ? `${count} mask shape${count === 1 ? "" : "s"} — the rest stays clean.` : "No mask: the whole image is fried."}</p>
+
+      {(tool === "brush" || tool === "erase") && (
+        <label className="block mt-2">
+          <div className="mb-1 text-neutral-300">Brush size: {Math.round(brush.size * 100)}%</div>
+          <input type="range" min={0.005} max={0.3} step={0.005} value={brush.size} onInput={(e: any) => props.onBrush({ size: parseFloat(e.target.value) })} className="w-full accent-white" />
+        </label>
+      )}
+      {tool && tool !== "linear" && (
+        <label className="block mt-2">
+          <div className="mb-1 text-neutral-300">Hardness: {Math.round(brush.hardness * 100)}%</div>
+          <input type="range" min={0} max={1} step={0.05} value={brush.hardness} onInput={(e: any) => props.onBrush({ hardness: parseFloat(e.target.value) })} className="w-full accent-white" />
+        </label>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1.5 text-neutral-300">
+          <input type="checkbox" checked={invert} onChange={(e) => props.onInvert(e.target.checked)} className="accent-white" />
+          Invert
+        </label>
+        <label className="flex items-center gap-1.5 text-neutral-300">
+          <input type="checkbox" checked={showMask} onChange={(e) => props.onShowMask(e.target.checked)} className="accent-white" />
+          Show mask
+        </label>
+        <button onClick={props.onClear} disabled={!count} className={`ml-auto px-2.5 py-1 ${round} bg-white/10 border border-white/10 disabled:opacity-40`}>Clear mask</button>
+      </div>
+    </div>
+  );
+}
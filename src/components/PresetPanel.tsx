@@ -0,0 +1,70 @@
+import React, { useRef } from "react";
+import { OVERLAYS, OverlaySpec } from "../pipeline/overlays";
+import { Preset } from "../pipeline/presets";
+
+interface Props {
+  presets: Preset[];
+  activeId: string;
+  overlays: OverlaySpec[];
+  compact?: boolean; // mobile layout
+  onApply(preset: Preset): void;
+  onOverlayStrength(index: number, strength: number): void;
+  onScrubStart(): void;
+  onScrubEnd(): void;
+  onSave(): void;
+  onDelete(id: string): void;
+  onImport(file: File): void;
+  onExport(): void;
+}
+
+export default function PresetPanel(props: Props) {
+  const { presets, activeId, overlays, compact } = props;
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const hasUser = presets.some((p) => !p.builtin);
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {presets.map((p) => (
+          <span key={p.id} className="relative inline-flex">
+            <button onClick={() => props.onApply(p)} className={`px-3 py-1.5 ${round} border ${activeId === p.id ? 'bg-white text-black' : `bg-white/10 border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}`}>
+              {compact ? p.shortName ?? p.name : p.name}
+            </button>
+            {!p.builtin && (
+              <button onClick={() => props.onDelete(p.id)} aria-label={`Delete ${p.name}`} className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-neutral-700 text-[10px] leading-4 text-white hover:bg-rose-500">×</button>
+            )}
+          </span>
+        ))}
+      </div>
+
+      {overlays.length > 0 && (
+        <div className="mt-3 text-xs">
+          {overlays.map((o, i) => (
+            <label key={i} className="block mb-2">
+              <div className="mb-1 text-neutral-300">{OVERLAYS[o.type].label}: {Math.round(o.strength * 100)}%</div>
+              <input type="range" min={0} max={1} step={0.01} value={o.strength} onPointerDown={props.onScrubStart} onPointerUp={props.onScrubEnd} onPointerCancel={props.onScrubEnd} onInput={(e: any) => props.onOverlayStrength(i, parseFloat(e.target.value))} className="w-full accent-white" />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap gap-2 text-xs">
+        <button onClick={props.onSave} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 hover:bg-white/20`}>Save current as preset</button>
+        <button onClick={() => importRef.current?.click()} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 hover:bg-white/20`}>Import</button>
+        <button onClick={props.onExport} disabled={!hasUser} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 hover:bg-white/20 disabled:opacity-40`}>Export</button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) props.onImport(f);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+}
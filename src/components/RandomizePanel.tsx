@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "react";
+
+export interface CandidateThumb {
+  url: string; // object URL of the rendered thumbnail
+  score: number; // fry level
+}
+
+interface Props {
+  seed: number | null; // of the batch on show
+  thumbs: (CandidateThumb | null)[]; // null = still rendering
+  generating: boolean;
+  lockedCount: number;
+  compact?: boolean; // mobile layout
+  onSurprise(seed?: number): void; // no seed = a fresh one
+  onPick(index: number): void;
+  onUnlockAll(): void;
+}
+
+export default function RandomizePanel(props: Props) {
+  const { seed, thumbs, generating, lockedCount, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const btn = `px-2.5 py-1 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'} disabled:opacity-40`;
+  const [seedText, setSeedText] = useState("");
+  useEffect(() => {
+    if (seed !== null) setSeedText(seed.toString(36));
+  }, [seed]);
+  const typedSeed = parseInt(seedText, 36);
+
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <button onClick={() => props.onSurprise()} disabled={generating} className={`px-2.5 py-1 ${round} bg-white text-black font-semibold disabled:opacity-40`}>Surprise me</button>
+        <input
+          value={seedText}
+          onChange={(e) => setSeedText(e.target.value.toLowerCase().replace(/[^0-9a-z]/g, ""))}
+          placeholder="seed"
+          aria-label="Batch seed"
+          className={`w-24 px-2 py-1 ${round} bg-black/40 border border-white/10 font-mono`}
+        />
+        <button onClick={() => props.onSurprise(typedSeed >>> 0)} disabled={generating || !isFinite(typedSeed)} className={btn}>Replay seed</button>
+      </div>
+      <p className="mt-2 text-neutral-400">
+        {lockedCount ? `${lockedCount} locked slider${lockedCount === 1 ? "" : "s"} keep their values. ` : "Lock sliders under Adjustments to keep them. "}
+        {lockedCount > 0 && <button onClick={props.onUnlockAll} className="underline">Unlock all</button>}
+      </p>
+
+      {thumbs.length > 0 && (
+        <div className="mt-2 grid grid-cols-3 gap-1.5">
+          {thumbs.map((t, i) => (
+            <button key={i} onClick={() => props.onPick(i)} disabled={!t} className={`relative aspect-square ${round} overflow-hidden bg-black/40 border border-white/10 ${compact ? '' : 'hover:border-white/60'}`}>
+              {t ? (
+                <>
+                  <img src={t.url} alt={`Candidate ${i + 1}`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0.5 right-1 px-1 rounded bg-black/60 text-[10px]">{t.score}</span>
+                </>
+              ) : (
+                <span className="text-neutral-500">…</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
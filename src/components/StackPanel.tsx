@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { BLEND_MODES, PASS_TYPES, PASSES, PassType, StackPass } from "../pipeline/stack";
+
+interface Props {
+  stack: StackPass[];
+  custom: boolean; // false = the classic order
+  compact?: boolean; // mobile layout
+  onToggle(id: string, enabled: boolean): void;
+  onMove(id: string, dir: 1 | -1): void;
+  onDuplicate(id: string): void;
+  onRemove(id: string): void;
+  onChange(id: string, patch: Partial<Pick<StackPass, "opacity" | "blend">>): void;
+  onAdd(type: PassType): void;
+  onReset(): void;
+  onScrubStart(): void;
+  onScrubEnd(): void;
+}
+
+export default function StackPanel(props: Props) {
+  const { stack, custom, compact } = props;
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const btn = `px-2 py-0.5 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'} disabled:opacity-40`;
+  const chip = (active: boolean) =>
+    `px-2.5 py-1 ${round} border ${active ? 'bg-white text-black' : `bg-white/10 border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}`;
+
+  return (
+    <div className="text-xs">
+      <p className="mb-2 text-neutral-400">Top runs first. Each pass blends over what came before it.</p>
+      <ol className="space-y-1">
+        {stack.map((p, i) => {
+          const open = openId === p.id;
+          return (
+            <li key={p.id} className={`${round} border ${open ? 'border-white/30 bg-white/5' : 'border-white/10'} px-2 py-1.5`}>
+              <div className="flex items-center gap-2">
+                <input type="checkbox" checked={p.enabled} onChange={(e) => props.onToggle(p.id, e.target.checked)} aria-label={`Use ${PASSES[p.type].label}`} className="accent-white" />
+                <button onClick={() => setOpenId(open ? null : p.id)} className={`flex-1 text-left ${p.enabled ? '' : 'text-neutral-500 line-through'}`}>
+                  {PASSES[p.type].label}
+                  {(p.opacity < 1 || p.blend !== "normal") && (
+                    <span className="ml-1.5 text-neutral-400">{Math.round(p.opacity * 100)}% {p.blend}</span>
+                  )}
+                </button>
+                <button onClick={() => props.onMove(p.id, -1)} disabled={i === 0} aria-label="Move up" className={btn}>↑</button>
+                <button onClick={() => props.onMove(p.id, 1)} disabled={i === stack.length - 1} aria-label="Move down" className={btn}>↓</button>
+                <button onClick={() => props.onDuplicate(p.id)} title="Duplicate" className={btn}>⧉</button>
+                <button onClick={() => props.onRemove(p.id)} aria-label={`Remove ${PASSES[p.type].label}`} className={btn}>×</button>
+              </div>
+              {open && (
+                <div className="mt-2">
+                  <label className="block">
+                    <div className="mb-1 text-neutral-300">Opacity: {Math.round(p.opacity * 100)}%</div>
+                    <input type="range" min={0} max={1} step={0.01} value={p.opacity} onPointerDown={props.onScrubStart} onPointerUp={props.onScrubEnd} onPointerCancel={props.onScrubEnd} onInput={(e: any) => props.onChange(p.id, { opacity: parseFloat(e.target.value) })} className="w-full accent-white" />
+                  </label>
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {BLEND_MODES.map((b) => (
+                      <button key={b.id} onClick={() => props.onChange(p.id, { blend: b.id })} className={chip(p.blend === b.id)}>{b.label}</button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {adding && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {PASS_TYPES.map((t) => (
+            <button
+              key={t}
+              onClick={() => {
+                props.onAdd(t);
+                setAdding(false);
+              }}
+              className={chip(false)}
+            >
+              {PASSES[t].label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        <button onClick={() => setAdding(!adding)} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}>{adding ? "Cancel" : "Add effect"}</button>
+        <button onClick={props.onReset} disabled={!custom} className={`ml-auto px-2.5 py-1 ${round} bg-white/10 border border-white/10 disabled:opacity-40`}>Classic order</button>
+      </div>
+    </div>
+  );
+}
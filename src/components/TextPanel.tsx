@@ -0,0 +1,54 @@
+import React from "react";
+import { MemeText, TextBox } from "../pipeline/captions";
+
+interface Props {
+  text: MemeText;
+  selectedId: string | null;
+  compact?: boolean; // mobile layout
+  onChange(patch: Partial<MemeText>): void;
+  onBox(id: string, patch: Partial<TextBox>): void;
+  onAddBox(): void;
+  onRemoveBox(id: string): void;
+  onSelect(id: string): void;
+  onEditStart(): void; // typing in one field = one undo step
+  onEditEnd(): void;
+}
+
+export default function TextPanel(props: Props) {
+  const { text, selectedId, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const field = `w-full px-2.5 py-1.5 ${round} bg-black/40 border border-white/10 text-sm uppercase placeholder:normal-case`;
+  const edit = { onFocus: props.onEditStart, onBlur: props.onEditEnd };
+
+  return (
+    <div className="text-xs space-y-2">
+      <input value={text.top} placeholder="Top text" {...edit} onChange={(e) => props.onChange({ top: e.target.value })} className={field} />
+      <input value={text.bottom} placeholder="Bottom text" {...edit} onChange={(e) => props.onChange({ bottom: e.target.value })} className={field} />
+
+      {text.boxes.map((b) => (
+        <div key={b.id} className={`p-2 ${round} border ${selectedId === b.id ? 'border-white/60' : 'border-white/10'}`} onClick={() => props.onSelect(b.id)}>
+          <div className="flex gap-2">
+            <input value={b.text} {...edit} onChange={(e) => props.onBox(b.id, { text: e.target.value })} className={field} />
+            <button onClick={(e) => {
+                e.stopPropagation();
+                props.onRemoveBox(b.id);
+              }} aria-label="Remove text box" className={`px-2.5 ${round} bg-white/10 border border-white/10`}>×</button>
+          </div>
+          <label className="block mt-2">
+            <div className="mb-1 text-neutral-300">Box width: {Math.round(b.width * 100)}%</div>
+            <input type="range" min={0.15} max={1} step={0.01} value={b.width} {...edit} onInput={(e: any) => props.onBox(b.id, { width: parseFloat(e.target.value) })} className="w-full accent-white" />
+          </label>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <button onClick={props.onAddBox} className={`px-2.5 py-1 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}>Add text box</button>
+        <label className="ml-auto flex items-center gap-1.5 text-neutral-300">
+          <input type="checkbox" checked={text.fried} onChange={(e) => props.onChange({ fried: e.target.checked })} className="accent-white" />
+          Fry the text
+        </label>
+      </div>
+      {text.boxes.length > 0 && <p className="text-neutral-400">Drag boxes on the image to move them.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import { CROP_ASPECTS, ImageTransform } from "../pipeline/transform";
+
+interface Props {
+  transform: ImageTransform;
+  cropping: boolean; // crop box is on the preview
+  aspect: string; // CROP_ASPECTS id
+  compact?: boolean; // mobile layout
+  onRotate(dir: 1 | -1): void;
+  onFlip(axis: "h" | "v"): void;
+  onAspect(id: string): void;
+  onCropStart(): void;
+  onCropApply(): void;
+  onCropCancel(): void;
+  onCropReset(): void;
+}
+
+export default function TransformPanel(props: Props) {
+  const { transform, cropping, aspect, compact } = props;
+  const round = compact ? "rounded-lg" : "rounded-xl";
+  const btn = `px-2.5 py-1 ${round} bg-white/10 border border-white/10 ${compact ? '' : 'hover:bg-white/20'} disabled:opacity-40`;
+  const chip = (active: boolean) =>
+    `px-2.5 py-1 ${round} border ${active ? 'bg-white text-black' : `bg-white/10 border-white/10 ${compact ? '' : 'hover:bg-white/20'}`}`;
+
+  return (
+    <div className="text-xs">
+      <div className="flex flex-wrap gap-1.5">
+        <button onClick={() => props.onRotate(-1)} disabled={cropping} title="Rotate left" className={btn}>⟲ 90°</button>
+        <button onClick={() => props.onRotate(1)} disabled={cropping} title="Rotate right" className={btn}>⟳ 90°</button>
+        <button onClick={() => props.onFlip("h")} disabled={cropping} className={btn}>Flip ↔</button>
+        <button onClick={() => props.onFlip("v")} disabled={cropping} className={btn}>Flip ↕</button>
+      </div>
+
+      <div className="mt-3 flex flex-wrap gap-1.5">
+        {CROP_ASPECTS.map((a) => (
+          <button key={a.id} onClick={() => props.onAspect(a.id)} className={chip(aspect === a.id)}>{a.label}</button>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        {cropping ? (
+          <>
+            <button onClick={props.onCropApply} className={`px-2.5 py-1 ${round} bg-white text-black font-semibold`}>Apply crop</button>
+            <button onClick={props.onCropCancel} className={btn}>Cancel</button>
+          </>
+        ) : (
+          <>
+            <button onClick={props.onCropStart} className={btn}>{transform.crop ? "Edit crop" : "Crop"}</button>
+            {transform.crop && <button onClick={props.onCropReset} className={btn}>Remove crop</button>}
+          </>
+        )}
+      </div>
+      {cropping && <p className="mt-2 text-neutral-400">Drag a corner to resize, the middle to move, or draw a new box.</p>}
+    </div>
+  );
+}
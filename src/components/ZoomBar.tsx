@@ -0,0 +1,25 @@
+import React from "react";
+
+interface Props {
+  percent: number; // image px per device px × 100
+  canZoomOut: boolean;
+  canZoomIn: boolean;
+  onZoom(factor: number): void;
+  onFit(): void;
+  onActual(): void;
+}
+
+export default function ZoomBar({ percent, canZoomOut, canZoomIn, onZoom, onFit, onActual }: Props) {
+  const btn = "px-2.5 py-1 rounded-lg bg-white/10 border border-white/10 hover:bg-white/20 disabled:opacity-40";
+  return (
+    <div className="mt-2 flex items-center gap-1.5 text-xs">
+      <span className="text-neutral-300 mr-1">Zoom</span>
+      <button onClick={() => onZoom(1 / 1.5)} disabled={!canZoomOut} title="Zoom out" className={btn}>−</button>
+      <span className="w-12 text-center tabular-nums">{Math.round(percent)}%</span>
+      <button onClick={() => onZoom(1.5)} disabled={!canZoomIn} title="Zoom in" className={btn}>+</button>
+      <button onClick={onFit} disabled={!canZoomOut} className={btn}>Fit</button>
+      <button onClick={onActual} title="One image pixel per screen pixel" className={btn}>100%</button>
+      <span className="ml-auto text-neutral-400 hidden sm:inline">Scroll or pinch to zoom, drag to pan</span>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { act, renderHook } from "@testing-library/react";
+import { useHistory } from "./useHistory";
+
+test("undo and redo walk the snapshots", () => {
+  const { result } = renderHook(() => useHistory(0));
+  act(() => result.current.set(1));
+  act(() => result.current.set((n) => n + 1));
+  expect(result.current.state).toBe(2);
+
+  act(() => result.current.undo());
+  expect(result.current.state).toBe(1);
+  act(() => result.current.undo());
+  expect(result.current.state).toBe(0);
+  expect(result.current.canUndo).toBe(false);
+
+  act(() => result.current.redo());
+  expect(result.current.state).toBe(1);
+  act(() => result.current.set(5));
+  expect(result.current.canRedo).toBe(false);
+});
+
+test("a gesture folds into a single entry", () => {
+  const { result } = renderHook(() => useHistory(10));
+  act(() => result.current.beginGesture());
+  act(() => result.current.set(11));
+  act(() => result.current.set(12));
+  act(() => result.current.set(13));
+  act(() => result.current.endGesture());
+  act(() => result.current.set(20));
+
+  act(() => result.current.undo());
+  expect(result.current.state).toBe(13);
+  act(() => result.current.undo());
+  expect(result.current.state).toBe(10);
+});
+
+test("a gesture with no changes adds nothing", () => {
+  const { result } = renderHook(() => useHistory("a"));
+  act(() => result.current.beginGesture());
+  act(() => result.current.endGesture());
+  expect(result.current.canUndo).toBe(false);
+});
+
+test("rewrite changes every snapshot without adding an entry", () => {
+  const { result } = renderHook(() => useHistory(1));
+  act(() => result.current.set(2));
+  act(() => result.current.set(3));
+  act(() => result.current.undo());
+  act(() => result.current.rewrite((n) => n * 10));
+  expect(result.current.state).toBe(20);
+  act(() => result.current.undo());
+  expect(result.current.state).toBe(10);
+  expect(result.current.canUndo).toBe(false);
+  act(() => result.current.redo());
+  act(() => result.current.redo());
+  expect(result.current.state).toBe(30);
+});
@@ -0,0 +1,78 @@
+import { useCallback, useState } from "react";
+
+/**
+ * Undo/redo over immutable snapshots.
+ * - `beginGesture`/`endGesture` fold every `set` in between into one entry
+ * - Any new `set` clears the redo stack
+ * - `rewrite` changes every snapshot at once without making an entry (e.g. dropping what belonged to the last picture)
+ */
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  gesture: "idle" | "armed" | "merging";
+}
+
+export function useHistory<T>(initial: T | (() => T), limit = 100) {
+  const [h, setH] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === "function" ? (initial as () => T)() : initial,
+    future: [],
+    gesture: "idle",
+  }));
+
+  const set = useCallback(
+    (update: T | ((prev: T) => T)) =>
+      setH((h) => {
+        const next = typeof update === "function" ? (update as (prev: T) => T)(h.present) : update;
+        if (Object.is(next, h.present)) return h;
+        if (h.gesture === "merging") return { ...h, present: next };
+        return {
+          past: [...h.past, h.present].slice(-limit),
+          present: next,
+          future: [],
+          gesture: h.gesture === "armed" ? "merging" : "idle",
+        };
+      }),
+    [limit]
+  );
+
+  const undo = useCallback(
+    () =>
+      setH((h) => {
+        if (!h.past.length) return h;
+        return { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future], gesture: "idle" };
+      }),
+    []
+  );
+
+  const redo = useCallback(
+    () =>
+      setH((h) => {
+        if (!h.future.length) return h;
+        return { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1), gesture: "idle" };
+      }),
+    []
+  );
+
+  const rewrite = useCallback(
+    (fn: (snapshot: T) => T) => setH((h) => ({ ...h, past: h.past.map(fn), present: fn(h.present), future: h.future.map(fn) })),
+    []
+  );
+
+  const beginGesture = useCallback(() => setH((h) => (h.gesture === "idle" ? { ...h, gesture: "armed" } : h)), []);
+  const endGesture = useCallback(() => setH((h) => (h.gesture === "idle" ? h : { ...h, gesture: "idle" })), []);
+
+  return {
+    state: h.present,
+    set,
+    undo,
+    redo,
+    rewrite,
+    beginGesture,
+    endGesture,
+    canUndo: h.past.length > 0,
+    canRedo: h.future.length > 0,
+  };
+}
@@ -0,0 +1,4 @@
+// jsdom has no Worker/OffscreenCanvas; tests always take the main-thread path
+export function spawnRenderWorker(): Worker | null {
+  return null;
+}
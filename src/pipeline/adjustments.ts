@@ -0,0 +1,59 @@
+import { CRUNCH_MAX_GENERATIONS } from "./crunch";
+import { FryParams } from "./fry";
+
+/**
+ * Slider definitions for every numeric adjustment.
+ * - Single source of truth for ranges: UI, recipe links and validation all read these
+ */
+
+export type NumericParam = { [K in keyof FryParams]: FryParams[K] extends number ? K : never }[keyof FryParams];
+
+export interface Adjustment {
+  key: NumericParam;
+  name: string;
+  shortName?: string; // mobile label
+  min: number;
+  max: number;
+  step: number;
+  format(v: number): string;
+}
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+export const ADJUSTMENTS: Adjustment[] = [
+  { key: "brightness", name: "Brightness", min: 50, max: 400, step: 1, format: (v) => `${v}%` },
+  { key: "contrast", name: "Contrast", min: 50, max: 250, step: 1, format: (v) => `${v}%` },
+  { key: "saturation", name: "Saturation", min: 0, max: 300, step: 1, format: (v) => `${v}%` },
+  { key: "hue", name: "Hue", min: -180, max: 180, step: 1, format: (v) => `${v}°` },
+  { key: "exposureEV", name: "Exposure", min: -2, max: 2, step: 0.1, format: (v) => `${v >= 0 ? "+" : ""}${v.toFixed(1)} EV` },
+  { key: "burn", name: "Burn", min: 0, max: 100, step: 1, format: (v) => `${v}%` },
+  { key: "noise", name: "Noise", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "posterize", name: "Posterize levels", shortName: "Posterize", min: 0, max: 8, step: 1, format: (v) => `${v || "off"}` },
+  { key: "crunch", name: "JPEG crunch", shortName: "Crunch", min: 0, max: CRUNCH_MAX_GENERATIONS, step: 1, format: (v) => (v ? `${v}×` : "off") },
+  { key: "crunchQuality", name: "Crunch quality", min: 0.05, max: 0.6, step: 0.01, format: pct },
+  { key: "sharpenAmount", name: "Sharpen", min: 0, max: 5, step: 0.05, format: pct },
+  { key: "sharpenRadius", name: "Sharpen radius", shortName: "Radius", min: 0.5, max: 10, step: 0.1, format: (v) => `${v.toFixed(1)}px` },
+  { key: "sharpenThreshold", name: "Sharpen threshold", shortName: "Threshold", min: 0, max: 64, step: 1, format: (v) => `${v}` },
+  { key: "edgeEnhance", name: "Edge enhance", shortName: "Edges", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "emboss", name: "Emboss", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "blockSize", name: "Block size", min: 4, max: 32, step: 1, format: (v) => `${v}px` },
+  { key: "blockiness", name: "Blockiness", shortName: "Blocks", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "chromaShift", name: "RGB shift", min: 0, max: 20, step: 0.5, format: (v) => `${v}px` },
+  { key: "chromaAngle", name: "RGB shift angle", shortName: "Angle", min: 0, max: 360, step: 1, format: (v) => `${v}°` },
+  { key: "chromaLens", name: "Lens fringe", shortName: "Fringe", min: 0, max: 20, step: 0.5, format: (v) => `${v}px` },
+  { key: "scanlineSpacing", name: "Scanline spacing", shortName: "Scanlines", min: 2, max: 12, step: 1, format: (v) => `${v}px` },
+  { key: "vhsJitter", name: "Tracking jitter", shortName: "Jitter", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "chromaBleed", name: "Chroma bleed", shortName: "Bleed", min: 0, max: 1, step: 0.01, format: pct },
+  { key: "tapeNoise", name: "Tape noise", min: 0, max: 1, step: 0.01, format: pct },
+];
+
+export function adjustmentLabel(adj: Adjustment, v: number, compact = false) {
+  return `${compact ? adj.shortName ?? adj.name : adj.name}: ${adj.format(v)}`;
+}
+
+/** Clamps to the slider range and snaps to its step. */
+export function clampAdjustment(adj: Adjustment, v: number) {
+  const snapped = adj.min + Math.round((v - adj.min) / adj.step) * adj.step;
+  const decimals = (String(adj.step).split(".")[1] ?? "").length;
+  return Math.max(adj.min, Math.min(adj.max, Number(snapped.toFixed(decimals))));
+}
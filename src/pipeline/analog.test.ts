@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import { applyChannelShift, applyChromaBleed, applyTapeNoise, applyTrackingJitter } from "./analog";
+import { mulberry32 } from "./random";
+
+// one white column on black, 9 × 3
+function column(x0: number) {
+  const width = 9;
+  const height = 3;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  for (let y = 0; y < height; y++) data.fill(255, (y * width + x0) * 4, (y * width + x0) * 4 + 3);
+  return { data, width, height };
+}
+
+function channel(img: { data: Uint8ClampedArray; width: number }, c: number, y = 1) {
+  return Array.from({ length: img.width }, (_, x) => img.data[(y * img.width + x) * 4 + c]);
+}
+
+test("the RGB shift pulls red and blue apart along the angle", () => {
+  const img = applyChannelShift(column(4), 2, 0);
+  expect(channel(img, 0).indexOf(255)).toBe(6);
+  expect(channel(img, 1).indexOf(255)).toBe(4);
+  expect(channel(img, 2).indexOf(255)).toBe(2);
+
+  const down = applyChannelShift(column(4), 2, 180);
+  expect(channel(down, 0).indexOf(255)).toBe(2);
+});
+
+test("chroma bleed smears color but keeps brightness", () => {
+  const img = column(2);
+  img.data.fill(128);
+  img.data.set([100, 100, 180, 255], (9 + 2) * 4); // middle row: one bluish pixel on gray
+  const luma = () => channel(img, 0).map((r, x) => 0.299 * r + 0.587 * channel(img, 1)[x] + 0.114 * channel(img, 2)[x]);
+  const before = luma();
+  applyChromaBleed(img, 0.5);
+  luma().forEach((v, x) => expect(Math.abs(v - before[x])).toBeLessThan(1.5));
+  expect(channel(img, 2)[5]).toBeGreaterThan(channel(img, 0)[5]); // the blue trails to the right
+});
+
+test("tape damage is the same for the same seed", () => {
+  const run = (seed: number) => {
+    const img = column(4);
+    applyTrackingJitter(img, 1, mulberry32(seed));
+    applyTapeNoise(img, 1, mulberry32(seed));
+    return Array.from(img.data);
+  };
+  expect(run(7)).toEqual(run(7));
+  expect(run(7)).not.toEqual(run(8));
+});
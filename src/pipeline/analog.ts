@@ -0,0 +1,156 @@
+import { Frame } from "./canvas";
+import { clamp, PixelBuffer } from "./fry";
+import { pixelNoise } from "./random";
+
+/**
+ * Analog artifacts — lens and tape damage, pure pixel math like fry.ts.
+ * - RGB channel offset: red and blue pulled apart along a direction, plus radial (lens) fringing
+ * - VHS: tracking jitter bands, chroma bleed, tape noise lines
+ * - Sizes are in working-buffer px; callers scale preview-px settings by `unit`
+ * - Anything random takes a `random` source, so a seed gives the same damage every render
+ * - `frame` is where the whole image lies on the buffer; damage is laid out on the whole image,
+ *   so a region render gets exactly its part of it
+ */
+
+/**
+ * Moves red `shift` px along `angle` (deg, 0 = right) and blue the opposite way; green stays.
+ * `lens` adds fringing that grows from nothing at the center to `lens` px at the corners of
+ * `frame`, where the whole image sits on the buffer (a region render only holds part of it).
+ * `mix` fades the result over the input.
+ */
+export function applyChannelShift(img: PixelBuffer, shift: number, angle: number, lens = 0, mix = 1, frame?: Frame): PixelBuffer {
+  if ((shift <= 0 && lens <= 0) || mix <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const { x: fx, y: fy, width: fw, height: fh } = frame ?? { x: 0, y: 0, width: W, height: H };
+  const src = d.slice();
+  const a = (angle * Math.PI) / 180;
+  const dx = Math.cos(a) * shift;
+  const dy = Math.sin(a) * shift;
+  const cx = fx + (fw - 1) / 2;
+  const cy = fy + (fh - 1) / 2;
+  const k = lens / Math.max(1, Math.hypot((fw - 1) / 2, (fh - 1) / 2)); // fringe px per px from the center
+
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const ox = dx + (x - cx) * k;
+      const oy = dy + (y - cy) * k;
+      const i = (y * W + x) * 4;
+      const r = src[sampleIndex(x - ox, y - oy, W, H)];
+      const b = src[sampleIndex(x + ox, y + oy, W, H) + 2];
+      d[i] = src[i] + (r - src[i]) * mix;
+      d[i + 2] = src[i + 2] + (b - src[i + 2]) * mix;
+    }
+  }
+  return img;
+}
+
+/**
+ * Tracking jitter: the picture splits into horizontal bands and some of them slip sideways.
+ * `amount` 0..1 sets how many bands slip and how far.
+ */
+export function applyTrackingJitter(img: PixelBuffer, amount: number, random: () => number, unit = 1, frame?: Frame): PixelBuffer {
+  if (amount <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const oy = frame ? -Math.round(frame.y) : 0; // image row of the buffer's first row
+  const rows = Math.min(frame ? Math.round(frame.height) : H, oy + H);
+  const row = new Uint8ClampedArray(W * 4);
+  const maxShift = amount * 24 * unit;
+
+  // bands are laid out from the top of the image, rows above the buffer only use up their draws
+  for (let top = 0; top < rows; ) {
+    const band = Math.max(1, Math.round((3 + random() * 30) * unit));
+    const slip = random() < amount * 0.6 ? Math.round((random() - 0.5) * 2 * maxShift) : 0;
+    const end = Math.min(rows, top + band);
+    if (slip) {
+      for (let y = Math.max(0, top - oy); y < end - oy; y++) {
+        const start = y * W * 4;
+        row.set(d.subarray(start, start + W * 4));
+        for (let x = 0; x < W; x++) {
+          const sx = Math.min(W - 1, Math.max(0, x - slip)); // edge pixels smear into the gap
+          d[start + x * 4] = row[sx * 4];
+          d[start + x * 4 + 1] = row[sx * 4 + 1];
+          d[start + x * 4 + 2] = row[sx * 4 + 2];
+        }
+      }
+    }
+    top = end;
+  }
+  return img;
+}
+
+/**
+ * Chroma bleed: color smears to the right of edges while brightness stays put,
+ * like the low chroma bandwidth of tape. `amount` 0..1.
+ */
+export function applyChromaBleed(img: PixelBuffer, amount: number, unit = 1): PixelBuffer {
+  if (amount <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const radius = Math.max(1, Math.round(amount * 10 * unit));
+  const lag = Math.round(amount * 4 * unit);
+  const cb = new Float64Array(W + 1); // running sums of chroma along the row
+  const cr = new Float64Array(W + 1);
+
+  for (let y = 0; y < H; y++) {
+    const start = y * W * 4;
+    for (let x = 0; x < W; x++) {
+      const i = start + x * 4;
+      const L = 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+      cb[x + 1] = cb[x] + d[i + 2] - L;
+      cr[x + 1] = cr[x] + d[i] - L;
+    }
+    for (let x = 0; x < W; x++) {
+      // each pixel takes the average chroma of the `radius` px before it, `lag` px late
+      const hi = Math.max(0, x - lag);
+      const lo = Math.max(0, hi - radius);
+      const n = hi - lo + 1;
+      const i = start + x * 4;
+      const L = 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+      const R = L + (cr[hi + 1] - cr[lo]) / n;
+      const B = L + (cb[hi + 1] - cb[lo]) / n;
+      const G = (L - 0.299 * R - 0.114 * B) / 0.587; // green from the luma equation
+      d[i] = clamp(R);
+      d[i + 1] = clamp(G);
+      d[i + 2] = clamp(B);
+    }
+  }
+  return img;
+}
+
+/**
+ * Tape noise: thin bright streaks across random rows, denser with `amount` 0..1.
+ */
+export function applyTapeNoise(img: PixelBuffer, amount: number, random: () => number, unit = 1, frame?: Frame): PixelBuffer {
+  if (amount <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const ox = frame ? -Math.round(frame.x) : 0; // image position of the buffer's top-left
+  const oy = frame ? -Math.round(frame.y) : 0;
+  const FW = frame ? Math.round(frame.width) : W;
+  const FH = frame ? Math.round(frame.height) : H;
+  const lines = Math.round((amount * FH) / (12 * unit));
+  const thick = Math.max(1, Math.round(unit));
+  const speckle = (random() * 4294967296) >>> 0; // seed of the per-pixel speckle
+
+  for (let n = 0; n < lines; n++) {
+    const y0 = Math.floor(random() * FH);
+    const len = Math.round(FW * (0.1 + random() * 0.9));
+    const x0 = Math.floor(random() * (FW - len + 1));
+    const level = 0.35 + random() * 0.65;
+    for (let y = Math.max(y0, oy); y < Math.min(FH, y0 + thick, oy + H); y++) {
+      for (let x = Math.max(x0, ox); x < Math.min(x0 + len, ox + W); x++) {
+        const a = level * pixelNoise(speckle, x, y, 0) * amount * 1.5; // speckled, not a solid bar
+        const i = ((y - oy) * W + x - ox) * 4;
+        d[i] = clamp(d[i] + (255 - d[i]) * a);
+        d[i + 1] = clamp(d[i + 1] + (255 - d[i + 1]) * a);
+        d[i + 2] = clamp(d[i + 2] + (255 - d[i + 2]) * a);
+      }
+    }
+  }
+  return img;
+}
+
+// nearest pixel, clamped to the edges
+function sampleIndex(x: number, y: number, W: number, H: number) {
+  const sx = Math.min(W - 1, Math.max(0, Math.round(x)));
+  const sy = Math.min(H - 1, Math.max(0, Math.round(y)));
+  return (sy * W + sx) * 4;
+}
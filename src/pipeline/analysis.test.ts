@@ -0,0 +1,28 @@
+/**
+ * @jest-environment node
+ */
+import { analyzeFrame, markClipping } from "./analysis";
+
+function image(width: number, height: number, pixel: (x: number, y: number) => number[]) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+  return { data, width, height };
+}
+
+test("a flat gray frame has one histogram spike and no fry", () => {
+  const { histogram, fry } = analyzeFrame(image(16, 16, () => [128, 128, 128]));
+  expect(histogram.samples).toBe(256);
+  expect(histogram.luma[128]).toBe(256);
+  expect(fry).toEqual({ score: 0, highlights: 0, shadows: 0, saturation: 0, edges: 0 });
+});
+
+test("clipped, saturated, busy frames score high and show up in the clipping overlay", () => {
+  const fried = image(16, 16, (x, y) => ((x + y) % 2 ? [255, 0, 0] : [255, 255, 0]));
+  const { fry } = analyzeFrame(fried);
+  expect(fry.highlights).toBe(1);
+  expect(fry.shadows).toBe(1);
+  expect(fry.score).toBeGreaterThan(80);
+
+  const out = markClipping(image(2, 1, (x) => (x ? [255, 10, 10] : [90, 0, 90])), new Uint8ClampedArray(8));
+  expect(Array.from(out)).toEqual([40, 40, 255, 170, 255, 40, 40, 170]);
+});
@@ -0,0 +1,105 @@
+import { PixelBuffer } from "./fry";
+
+/**
+ * Frame analysis — what the rendered pixels look like, pure math like fry.ts.
+ * - RGB and luma histograms, 256 bins each
+ * - Clipping: channels pinned at 0 or 255, as shares and as an overlay
+ * - Fry level: one 0..100 number from clipping, saturation and edge energy
+ * - Big frames are sampled on a grid, so this stays cheap enough to run on every frame
+ */
+
+export interface Histogram {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+  samples: number;
+}
+
+export interface FryStats {
+  score: number; // 0..100
+  highlights: number; // 0..1 share of pixels with a channel at 255
+  shadows: number; // 0..1 share with a channel at 0
+  saturation: number; // 0..1 mean (max - min) / 255
+  edges: number; // 0..1 mean local luma contrast, scaled
+}
+
+export interface FrameAnalysis {
+  histogram: Histogram;
+  fry: FryStats;
+}
+
+// Roughly how many pixels to look at, however big the frame
+const SAMPLE_BUDGET = 120000;
+
+export function analyzeFrame(img: PixelBuffer): FrameAnalysis {
+  const { width: W, height: H, data: d } = img;
+  const step = Math.max(1, Math.round(Math.sqrt((W * H) / SAMPLE_BUDGET)));
+  const histogram: Histogram = { r: new Uint32Array(256), g: new Uint32Array(256), b: new Uint32Array(256), luma: new Uint32Array(256), samples: 0 };
+  let high = 0;
+  let low = 0;
+  let sat = 0;
+  let edge = 0;
+  let edgeSamples = 0;
+
+  for (let y = 0; y < H; y += step) {
+    for (let x = 0; x < W; x += step) {
+      const i = (y * W + x) * 4;
+      const r = d[i];
+      const g = d[i + 1];
+      const b = d[i + 2];
+      const L = luma(r, g, b);
+      histogram.r[r]++;
+      histogram.g[g]++;
+      histogram.b[b]++;
+      histogram.luma[L]++;
+      histogram.samples++;
+
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      if (max === 255) high++;
+      if (min === 0) low++;
+      sat += max - min;
+
+      // contrast to the right and below neighbours (one step away, so edges read the same at any size)
+      if (x + step < W && y + step < H) {
+        const j = i + step * 4;
+        const k = i + step * W * 4;
+        edge += Math.abs(L - luma(d[j], d[j + 1], d[j + 2])) + Math.abs(L - luma(d[k], d[k + 1], d[k + 2]));
+        edgeSamples++;
+      }
+    }
+  }
+
+  const n = histogram.samples || 1;
+  const highlights = high / n;
+  const shadows = low / n;
+  const saturation = sat / n / 255;
+  const edges = Math.min(1, (edge / (edgeSamples || 1) / 255) * 4);
+  const clipped = Math.min(1, highlights + shadows);
+  const score = Math.round(100 * Math.min(1, 0.5 * clipped + 0.3 * saturation + 0.2 * edges));
+  return { histogram, fry: { score, highlights, shadows, saturation, edges } };
+}
+
+/**
+ * Paints clipped pixels into `out` (RGBA, same size as `img`): red where a channel hits 255,
+ * blue where one hits 0, transparent elsewhere.
+ */
+export function markClipping(img: PixelBuffer, out: Uint8ClampedArray) {
+  const d = img.data;
+  for (let i = 0; i < d.length; i += 4) {
+    const max = Math.max(d[i], d[i + 1], d[i + 2]);
+    const min = Math.min(d[i], d[i + 1], d[i + 2]);
+    const high = max === 255;
+    const low = min === 0;
+    out[i] = high ? 255 : 40;
+    out[i + 1] = 40;
+    out[i + 2] = low && !high ? 255 : 40;
+    out[i + 3] = high || low ? 170 : 0;
+  }
+  return out;
+}
+
+function luma(r: number, g: number, b: number) {
+  return Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+}
@@ -0,0 +1,144 @@
+import { decodeGif } from "../codecs/gifDecoder";
+import { encodeGif, GifEncodeFrame } from "../codecs/gifEncoder";
+import { createCanvas, get2d } from "./canvas";
+import { buildExportJob, ExportSize, renderExport, resolveExportSize } from "./export";
+import { FryParams } from "./fry";
+import { frameSeed } from "./random";
+import { Recipe } from "./recipe";
+import { createRenderClient } from "./renderClient";
+import { applyTransform, isIdentityTransform, transformedSize } from "./transform";
+
+/**
+ * Animated sources — GIFs and short video clips as a list of frames.
+ * - GIFs are decoded in JS (browsers only hand out the first frame)
+ * - Videos are sampled by seeking a muted <video> at a fixed rate
+ * - Every frame runs the normal pipeline with its own grain seed, so noise moves
+ * - Crop/rotation from the recipe is applied to each frame before frying
+ * - Export is an animated GIF from the in-repo encoder
+ */
+
+export interface AnimatedSource {
+  frames: ImageBitmap[];
+  delays: number[]; // ms per frame
+}
+
+export const MAX_ANIMATION_FRAMES = 150;
+export const VIDEO_FPS = 12;
+// Video frames are downscaled to this on load; GIF exports are capped to it too
+export const MAX_ANIMATION_EDGE = 720;
+
+/** Frames for animated files, or null for anything that should load as a still. */
+export async function loadAnimation(file: File): Promise<AnimatedSource | null> {
+  if (file.type.startsWith("video/")) return grabVideoFrames(file);
+  if (file.type !== "image/gif") return null;
+  let gif;
+  try {
+    gif = decodeGif(new Uint8Array(await file.arrayBuffer()), MAX_ANIMATION_FRAMES);
+  } catch {
+    return null; // let the browser have a go at it as a still
+  }
+  if (gif.frames.length < 2) return null;
+  const frames = await Promise.all(
+    gif.frames.map((f) => createImageBitmap(new ImageData(f.image.data, f.image.width, f.image.height)))
+  );
+  return { frames, delays: gif.frames.map((f) => f.delay) };
+}
+
+export function animationFrameParams(params: FryParams, index: number): FryParams {
+  return { ...params, seed: frameSeed(params.seed, index) };
+}
+
+/** GIF exports are capped at MAX_ANIMATION_EDGE on the long side. */
+export function animationExportSize(srcW: number, srcH: number, size: ExportSize): ExportSize {
+  const { width, height } = resolveExportSize(srcW, srcH, size);
+  return Math.max(width, height) > MAX_ANIMATION_EDGE ? { mode: "longEdge", px: MAX_ANIMATION_EDGE } : size;
+}
+
+/** Fries every frame at export size and encodes an animated GIF. */
+export async function exportAnimation(
+  anim: AnimatedSource,
+  recipe: Recipe,
+  size: ExportSize,
+  onProgress?: (done: number) => void
+): Promise<Blob> {
+  const { transform } = recipe;
+  const { width, height } = transformedSize(anim.frames[0].width, anim.frames[0].height, transform);
+  const gifSize = animationExportSize(width, height, size);
+  // own worker, like batch runs, so the preview keeps its source
+  const client = createRenderClient({ onFrame() {}, onError() {} });
+  const frames: GifEncodeFrame[] = [];
+
+  try {
+    for (let i = 0; i < anim.frames.length; i++) {
+      const job = buildExportJob(animationFrameParams(recipe.params, i), recipe.overlays, width, height, gifSize, {
+        stack: recipe.stack,
+        elements: recipe.elements,
+        text: recipe.text,
+        mask: recipe.mask,
+      });
+      const frame = isIdentityTransform(transform) ? anim.frames[i] : await createImageBitmap(applyTransform(anim.frames[i], transform));
+      let image: ImageData;
+      if (client) {
+        client.setSource(frame);
+        image = await client.exportImage(job);
+      } else {
+        const canvas = await renderExport(frame, job);
+        image = get2d(canvas, true).getImageData(0, 0, canvas.width, canvas.height);
+      }
+      if (frame !== anim.frames[i]) frame.close();
+      frames.push({ image, delay: anim.delays[i] });
+      onProgress?.((i + 1) / anim.frames.length);
+    }
+  } finally {
+    client?.dispose();
+  }
+  return new Blob([encodeGif(frames)], { type: "image/gif" });
+}
+
+async function grabVideoFrames(file: File): Promise<AnimatedSource> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  try {
+    video.src = url;
+    await waitFor(video, "loadeddata");
+
+    const length = Number.isFinite(video.duration) ? video.duration : MAX_ANIMATION_FRAMES / VIDEO_FPS;
+    const count = Math.max(1, Math.min(MAX_ANIMATION_FRAMES, Math.floor(length * VIDEO_FPS)));
+    const scale = Math.min(1, MAX_ANIMATION_EDGE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = createCanvas(Math.round(video.videoWidth * scale), Math.round(video.videoHeight * scale));
+    const ctx = get2d(canvas);
+
+    const frames: ImageBitmap[] = [];
+    for (let i = 0; i < count; i++) {
+      video.currentTime = i / VIDEO_FPS;
+      await waitFor(video, "seeked");
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(await createImageBitmap(canvas));
+    }
+    return { frames, delays: frames.map(() => Math.round(1000 / VIDEO_FPS)) };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+function waitFor(video: HTMLVideoElement, event: "loadeddata" | "seeked") {
+  return new Promise<void>((resolve, reject) => {
+    const done = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener("error", fail);
+      resolve();
+    };
+    const fail = () => {
+      video.removeEventListener(event, done);
+      video.removeEventListener("error", fail);
+      reject(new Error("This video can't be decoded by the browser"));
+    };
+    video.addEventListener(event, done);
+    video.addEventListener("error", fail);
+  });
+}
@@ -0,0 +1,100 @@
+import { buildExportJob, encodeExport, ExportSettings, formatFilename, imageDataToCanvas, renderExport } from "./export";
+import { importImage } from "./importImage";
+import { Recipe } from "./recipe";
+import { createRenderClient } from "./renderClient";
+
+/**
+ * Batch frying — one recipe over many files.
+ * - Runs on its own render worker so the preview worker keeps its source
+ * - Items run one at a time; a failure marks that item and moves on
+ * - Placed elements, meme text, crop/rotation and the mask belong to the preview image, so batch runs leave them out
+ * - Each file is imported upright (EXIF orientation) and keeps its own EXIF if metadata is kept
+ */
+
+export type BatchStatus = "queued" | "processing" | "done" | "failed";
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  thumbUrl: string;
+  status: BatchStatus;
+  progress: number; // 0..1
+  error?: string;
+}
+
+export interface BatchOutput {
+  name: string;
+  blob: Blob;
+}
+
+let nextItemId = 1;
+
+export function createBatchItem(file: File): BatchItem {
+  return { id: `b${nextItemId++}`, file, thumbUrl: URL.createObjectURL(file), status: "queued", progress: 0 };
+}
+
+export async function runBatch(
+  items: BatchItem[],
+  recipe: Recipe,
+  settings: ExportSettings,
+  presetLabel: string,
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void
+): Promise<BatchOutput[]> {
+  const client = createRenderClient({ onFrame() {}, onError() {} });
+  const outputs: BatchOutput[] = [];
+  const used = new Set<string>();
+
+  try {
+    for (const item of items) {
+      onUpdate(item.id, { status: "processing", progress: 0.05, error: undefined });
+      let bmp: ImageBitmap | null = null;
+      try {
+        const imported = await importImage(item.file);
+        bmp = imported.bitmap;
+        onUpdate(item.id, { progress: 0.25 });
+
+        const job = buildExportJob(recipe.params, recipe.overlays, bmp.width, bmp.height, settings.size, { stack: recipe.stack });
+        let canvas;
+        if (client) {
+          client.setSource(bmp);
+          canvas = imageDataToCanvas(await client.exportImage(job));
+        } else {
+          // inline fallback: yield first so the progress update can paint
+          await new Promise((r) => setTimeout(r, 0));
+          canvas = await renderExport(bmp, job);
+        }
+        onUpdate(item.id, { progress: 0.8 });
+
+        const blob = await encodeExport(canvas, settings, imported.exif);
+        const name = uniqueName(
+          formatFilename(settings.filename, {
+            name: item.file.name.replace(/\.[^.]+$/, ""),
+            preset: presetLabel,
+            width: canvas.width,
+            height: canvas.height,
+            format: settings.format,
+          }),
+          used
+        );
+        outputs.push({ name, blob });
+        onUpdate(item.id, { status: "done", progress: 1 });
+      } catch (err) {
+        onUpdate(item.id, { status: "failed", progress: 1, error: err instanceof Error ? err.message : String(err) });
+      } finally {
+        bmp?.close();
+      }
+    }
+  } finally {
+    client?.dispose();
+  }
+  return outputs;
+}
+
+// "a.jpg", "a.jpg" → "a.jpg", "a-2.jpg"
+function uniqueName(name: string, used: Set<string>) {
+  let out = name;
+  const dot = name.lastIndexOf(".");
+  for (let n = 2; used.has(out); n++) out = `${name.slice(0, dot)}-${n}${name.slice(dot)}`;
+  used.add(out);
+  return out;
+}
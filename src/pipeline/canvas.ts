@@ -0,0 +1,69 @@
+/**
+ * Canvas helpers that work on the main thread and in workers.
+ * - Prefers OffscreenCanvas, falls back to a detached <canvas>
+ * - Probes whether `ctx.filter` actually does anything (Safari long ignored it)
+ * - Draws an image through a frame rect, reading only the part that lands on the canvas
+ */
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const c = document.createElement("canvas");
+  c.width = width;
+  c.height = height;
+  return c;
+}
+
+export function get2d(canvas: AnyCanvas, willReadFrequently = false): Canvas2D {
+  const ctx = (canvas as HTMLCanvasElement).getContext("2d", { willReadFrequently } as any) as Canvas2D | null;
+  if (!ctx) throw new Error("2D canvas context unavailable");
+  return ctx;
+}
+
+/** Where a whole image lands on a canvas, in canvas px; may reach far outside it when zoomed. */
+export interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Draws `source` scaled into `frame`, cropping the source so off-canvas pixels are never touched. */
+export function drawFramed(ctx: Canvas2D, source: CanvasImageSource, frame: Frame, w: number, h: number) {
+  const { width: sw, height: sh } = source as { width: number; height: number };
+  const sx = (-frame.x / frame.width) * sw;
+  const sy = (-frame.y / frame.height) * sh;
+  ctx.drawImage(source, sx, sy, (w / frame.width) * sw, (h / frame.height) * sh, 0, 0, w, h);
+}
+
+let filterSupport: boolean | null = null;
+
+/** Draws white through `brightness(0)`; if it comes out white, the filter was ignored. Cached. */
+export function supportsCanvasFilter(): boolean {
+  if (filterSupport !== null) return filterSupport;
+  try {
+    const src = createCanvas(1, 1);
+    const sctx = get2d(src);
+    sctx.fillStyle = "#fff";
+    sctx.fillRect(0, 0, 1, 1);
+    const dst = createCanvas(1, 1);
+    const ctx = get2d(dst, true);
+    ctx.filter = "brightness(0)";
+    ctx.drawImage(src, 0, 0);
+    filterSupport = ctx.getImageData(0, 0, 1, 1).data[0] < 128;
+  } catch {
+    filterSupport = false;
+  }
+  return filterSupport;
+}
+
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+  // convertToBlob is missing from this TS version's OffscreenCanvas typings
+  const off = canvas as { convertToBlob?(opts: { type: string; quality?: number }): Promise<Blob> };
+  if (typeof off.convertToBlob === "function") return off.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) =>
+    (canvas as HTMLCanvasElement).toBlob((b) => (b ? resolve(b) : reject(new Error("Encoding failed"))), type, quality)
+  );
+}
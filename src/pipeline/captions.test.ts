@@ -0,0 +1,37 @@
+import { fitText, hasText, hitTextBox, wrapText } from "./captions";
+
+// monospace stand-in for measureText: every glyph is half the font size wide
+const mono = (s: string, size: number) => s.length * size * 0.5;
+
+test("wraps on word boundaries", () => {
+  expect(wrapText("one does not simply", 10, (s) => s.length)).toEqual(["one does", "not simply"]);
+  expect(wrapText("a\nb c", 100, (s) => s.length)).toEqual(["a", "b c"]);
+});
+
+test("over-long words get their own line", () => {
+  expect(wrapText("hi supercalifragilistic yo", 8, (s) => s.length)).toEqual(["hi", "supercalifragilistic", "yo"]);
+});
+
+test("short text gets the maximum size", () => {
+  expect(fitText("LOL", 1000, 400, 120, mono)).toEqual({ size: 120, lines: ["LOL"] });
+});
+
+test("long text shrinks until every line fits the box", () => {
+  const text = "WHEN YOU FRY THE MEME SO HARD IT STARTS FRYING YOU BACK";
+  const { size, lines } = fitText(text, 400, 150, 120, mono);
+  expect(size).toBeLessThan(120);
+  expect(lines.length).toBeGreaterThan(1);
+  expect(lines.every((l) => mono(l, size) <= 400)).toBe(true);
+  expect(lines.length * size * 1.1).toBeLessThanOrEqual(150);
+});
+
+test("blank captions don't count as text", () => {
+  expect(hasText({ top: "  ", bottom: "", boxes: [{ id: "t", text: " ", x: 0.5, y: 0.5, width: 0.5 }], fried: false })).toBe(false);
+  expect(hasText({ top: "", bottom: "bottom", boxes: [], fried: false })).toBe(true);
+});
+
+test("free boxes are hit within their width", () => {
+  const box = { id: "t1", text: "HI", x: 0.5, y: 0.5, width: 0.4 };
+  expect(hitTextBox([box], 0.65, 0.52)).toBe(box);
+  expect(hitTextBox([box], 0.75, 0.5)).toBeNull();
+});
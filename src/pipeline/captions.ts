@@ -0,0 +1,145 @@
+import { Canvas2D } from "./canvas";
+
+/**
+ * Meme text — Impact, white fill, black stroke, ALL CAPS.
+ * - Top and bottom captions plus free-positioned boxes
+ * - Font size auto-fits: largest size whose word-wrapped lines fit the box
+ * - Sizes are relative to the image, so text is laid out fresh (and crisp) at any resolution
+ * - `fried` draws the text before the color/pixel passes instead of on top of the result
+ */
+
+export interface TextBox {
+  id: string;
+  text: string;
+  x: number; // center, 0..1 of width
+  y: number; // center, 0..1 of height
+  width: number; // box width, 0..1 of image width
+}
+
+export interface MemeText {
+  top: string;
+  bottom: string;
+  boxes: TextBox[];
+  fried: boolean; // true = text goes through the fry with the image
+}
+
+export const DEFAULT_MEME_TEXT: MemeText = { top: "", bottom: "", boxes: [], fried: false };
+
+export const MEME_FONT = 'Impact, Anton, Haettenschweiler, "Arial Narrow Bold", sans-serif';
+
+// Caption areas, as fractions of the image
+const CAPTION_WIDTH = 0.94;
+const CAPTION_HEIGHT = 0.28;
+const CAPTION_MARGIN = 0.03;
+const MAX_FONT = 0.14; // of the shorter edge
+const LINE_HEIGHT = 1.1;
+// Height used for hit testing free boxes
+export const TEXT_BOX_GRAB = 0.08;
+
+let nextBoxId = 1;
+
+export function createTextBox(x = 0.5, y = 0.5): TextBox {
+  return { id: `t${Date.now().toString(36)}${nextBoxId++}`, text: "TEXT", x, y, width: 0.6 };
+}
+
+export function hasText(text: MemeText | undefined): text is MemeText {
+  return !!text && (!!text.top.trim() || !!text.bottom.trim() || text.boxes.some((b) => b.text.trim()));
+}
+
+/** Topmost free box under a point (relative coords), or null. */
+export function hitTextBox(boxes: TextBox[], x: number, y: number) {
+  for (let i = boxes.length - 1; i >= 0; i--) {
+    const b = boxes[i];
+    if (Math.abs(b.x - x) <= b.width / 2 && Math.abs(b.y - y) <= TEXT_BOX_GRAB) return b;
+  }
+  return null;
+}
+
+/**
+ * Greedy word wrap. A word wider than `maxWidth` gets a line of its own
+ * (fitText then shrinks the font until it fits).
+ */
+export function wrapText(text: string, maxWidth: number, measure: (s: string) => number): string[] {
+  const lines: string[] = [];
+  for (const para of text.split("\n")) {
+    let line = "";
+    for (const word of para.split(/\s+/).filter(Boolean)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && measure(next) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Largest font size (px, whole) at which the wrapped text fits maxWidth × maxHeight. */
+export function fitText(
+  text: string,
+  maxWidth: number,
+  maxHeight: number,
+  maxSize: number,
+  measure: (s: string, size: number) => number
+) {
+  for (let size = Math.max(1, Math.floor(maxSize)); size > 6; size = Math.floor(size * 0.92)) {
+    const lines = wrapText(text, maxWidth, (s) => measure(s, size));
+    const fits = lines.length * size * LINE_HEIGHT <= maxHeight && lines.every((l) => measure(l, size) <= maxWidth);
+    if (fits) return { size, lines };
+  }
+  const size = 6;
+  return { size, lines: wrapText(text, maxWidth, (s) => measure(s, size)) };
+}
+
+export function drawMemeText(ctx: Canvas2D, text: MemeText, w: number, h: number) {
+  const short = Math.min(w, h);
+  const margin = CAPTION_MARGIN * h;
+  if (text.top.trim()) drawBlock(ctx, text.top, w / 2, margin, w * CAPTION_WIDTH, h * CAPTION_HEIGHT, short, "top");
+  if (text.bottom.trim()) {
+    drawBlock(ctx, text.bottom, w / 2, h - margin, w * CAPTION_WIDTH, h * CAPTION_HEIGHT, short, "bottom");
+  }
+  for (const b of text.boxes) {
+    if (b.text.trim()) drawBlock(ctx, b.text, b.x * w, b.y * h, b.width * w, h * CAPTION_HEIGHT, short, "middle");
+  }
+}
+
+// anchor: which edge of the text block sits on y
+function drawBlock(
+  ctx: Canvas2D,
+  raw: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxHeight: number,
+  short: number,
+  anchor: "top" | "bottom" | "middle"
+) {
+  const text = raw.toUpperCase();
+  ctx.save();
+  const measure = (s: string, size: number) => {
+    ctx.font = `${size}px ${MEME_FONT}`;
+    return ctx.measureText(s).width;
+  };
+  const { size, lines } = fitText(text, maxWidth, maxHeight, short * MAX_FONT, measure);
+  const lineH = size * LINE_HEIGHT;
+  const blockH = lines.length * lineH;
+  const top = anchor === "top" ? y : anchor === "bottom" ? y - blockH : y - blockH / 2;
+
+  ctx.font = `${size}px ${MEME_FONT}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.lineJoin = "round";
+  ctx.miterLimit = 2;
+  ctx.lineWidth = Math.max(1, size / 7);
+  ctx.strokeStyle = "black";
+  ctx.fillStyle = "white";
+  lines.forEach((line, i) => {
+    const ly = top + lineH * (i + 0.5);
+    ctx.strokeText(line, x, ly);
+    ctx.fillText(line, x, ly);
+  });
+  ctx.restore();
+}
@@ -0,0 +1,27 @@
+import { AnyCanvas, canvasToBlob, createCanvas, get2d } from "./canvas";
+
+/**
+ * "Crunchy JPEG" generational loss — real encoder artifacts, not a simulation.
+ * - Each generation: toBlob(jpeg, low q) → createImageBitmap → redraw
+ * - Needs the browser encoder, so it lives outside the pure `fry` pipeline
+ */
+
+export const CRUNCH_MAX_GENERATIONS = 20;
+
+/** Returns a new canvas holding `src` after `generations` JPEG round-trips. */
+export async function crunchJpeg(src: AnyCanvas, generations: number, quality: number): Promise<AnyCanvas> {
+  const out = createCanvas(src.width, src.height);
+  const ctx = get2d(out, true);
+  ctx.drawImage(src, 0, 0);
+  const n = Math.min(CRUNCH_MAX_GENERATIONS, Math.max(0, Math.round(generations)));
+  for (let g = 0; g < n; g++) {
+    // wobble quality so passes keep re-quantizing instead of converging on a fixed point
+    const q = g % 2 ? quality * 0.85 : quality;
+    const blob = await canvasToBlob(out, "image/jpeg", q);
+    const bmp = await createImageBitmap(blob);
+    ctx.clearRect(0, 0, out.width, out.height);
+    ctx.drawImage(bmp, 0, 0);
+    bmp.close();
+  }
+  return out;
+}
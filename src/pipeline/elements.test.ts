@@ -0,0 +1,42 @@
+import { applyWarp, createElement, hitTest } from "./elements";
+
+// 21×21 image with a bright vertical stripe at x = 12
+function stripe() {
+  const W = 21;
+  const data = new Uint8ClampedArray(W * W * 4);
+  for (let y = 0; y < W; y++) {
+    const i = (y * W + 12) * 4;
+    data[i] = data[i + 1] = data[i + 2] = 255;
+  }
+  return { data, width: W, height: W };
+}
+
+test("zero-strength warp leaves pixels alone", () => {
+  const img = stripe();
+  const before = img.data.slice();
+  applyWarp(img, 10, 10, 8, 0);
+  expect(img.data).toEqual(before);
+});
+
+test("bulge pushes the stripe away from the center, pinch pulls it in", () => {
+  const brightest = (img: ReturnType<typeof stripe>) => {
+    let best = 0;
+    for (let x = 1; x < 21; x++) if (img.data[(10 * 21 + x) * 4] > img.data[(10 * 21 + best) * 4]) best = x;
+    return best;
+  };
+  expect(brightest(applyWarp(stripe(), 10, 10, 8, 1))).toBeGreaterThan(12);
+  expect(brightest(applyWarp(stripe(), 10, 10, 8, -1))).toBeLessThan(12);
+});
+
+test("pixels outside the radius are untouched", () => {
+  const img = applyWarp(stripe(), 3, 3, 4, 1);
+  expect(img.data[(20 * 21 + 12) * 4]).toBe(255);
+});
+
+test("hit testing picks the topmost element under the point", () => {
+  const a = createElement("emoji", 0.5, 0.5);
+  const b = createElement("flare", 0.52, 0.5);
+  expect(hitTest([a, b], 0.51, 0.5, 1000, 1000)?.id).toBe(b.id);
+  expect(hitTest([a, b], 0.45, 0.5, 1000, 1000)?.id).toBe(a.id);
+  expect(hitTest([a, b], 0.1, 0.1, 1000, 1000)).toBeNull();
+});
@@ -0,0 +1,190 @@
+import { Canvas2D, createCanvas, drawFramed, Frame, get2d } from "./canvas";
+import { PixelBuffer } from "./fry";
+
+/**
+ * Placed elements — the hand-positioned deep-fry classics.
+ * - Lens-flare eyes, emoji stickers, bulge/pinch warps
+ * - Positions and sizes are relative to the image (0..1), so they hold at any resolution
+ * - Composited into the source before the color pass, so they get fried with everything else
+ */
+
+export type ElementType = "flare" | "emoji" | "warp";
+
+interface ElementBase {
+  id: string;
+  x: number; // 0..1 of width
+  y: number; // 0..1 of height
+  size: number; // radius, as a fraction of the shorter image edge
+}
+
+export type PlacedElement =
+  | (ElementBase & { type: "flare"; intensity: number }) // 0..1
+  | (ElementBase & { type: "emoji"; emoji: string })
+  | (ElementBase & { type: "warp"; strength: number }); // -1 pinch .. +1 bulge
+
+export const EMOJI_CHOICES = ["😂", "💯", "🔥", "👌", "😳", "🅱️", "💀", "🤔"];
+
+export const ELEMENT_DEFAULTS: Record<ElementType, { label: string; size: number }> = {
+  flare: { label: "Flare eyes", size: 0.05 },
+  emoji: { label: "Emoji", size: 0.12 },
+  warp: { label: "Bulge / pinch", size: 0.25 },
+};
+
+let nextElementId = 1;
+
+export function createElement(type: ElementType, x: number, y: number, emoji = EMOJI_CHOICES[0]): PlacedElement {
+  const base = { id: `e${Date.now().toString(36)}${nextElementId++}`, x, y, size: ELEMENT_DEFAULTS[type].size };
+  if (type === "flare") return { ...base, type, intensity: 0.9 };
+  if (type === "emoji") return { ...base, type, emoji };
+  return { ...base, type, strength: 0.6 };
+}
+
+/** Topmost element under a point (relative coords), or null. */
+export function hitTest(elements: PlacedElement[], x: number, y: number, width: number, height: number) {
+  const short = Math.min(width, height);
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const e = elements[i];
+    const dx = (e.x - x) * width;
+    const dy = (e.y - y) * height;
+    // flares are tiny on screen; give them a bigger grab area
+    const r = Math.max(e.size * short, 0.04 * short);
+    if (dx * dx + dy * dy <= r * r) return e;
+  }
+  return null;
+}
+
+/**
+ * Draws `source` with the elements on top into a new w×h canvas.
+ * Warps go first (they move image pixels), then stickers and flares.
+ */
+export function composeElements(
+  source: CanvasImageSource,
+  elements: PlacedElement[],
+  w: number,
+  h: number,
+  frame: Frame = { x: 0, y: 0, width: w, height: h }
+) {
+  const canvas = createCanvas(w, h);
+  const ctx = get2d(canvas, true);
+  drawFramed(ctx, source, frame, w, h);
+
+  if (elements.some((e) => e.type === "warp")) {
+    const img = ctx.getImageData(0, 0, w, h);
+    applyWarps(img, elements, frame);
+    ctx.putImageData(img, 0, 0);
+  }
+
+  // element coords are relative to the whole frame, which may be larger than the canvas
+  const { x: fx, y: fy, width: fw, height: fh } = frame;
+  const short = Math.min(fw, fh);
+
+  for (const e of elements) {
+    if (e.type === "emoji") drawEmoji(ctx, e.emoji, fx + e.x * fw, fy + e.y * fh, e.size * short);
+    else if (e.type === "flare") drawLensFlare(ctx, fx + e.x * fw, fy + e.y * fh, e.size * short, e.intensity);
+  }
+  return canvas;
+}
+
+/** The warps among `elements` on `img`, in place; `frame` is where the whole image lies on it. */
+export function applyWarps(img: PixelBuffer, elements: PlacedElement[], frame: Frame): PixelBuffer {
+  const { x: fx, y: fy, width: fw, height: fh } = frame;
+  const short = Math.min(fw, fh);
+  for (const e of elements) {
+    if (e.type === "warp") applyWarp(img, fx + e.x * fw, fy + e.y * fh, e.size * short, e.strength);
+  }
+  return img;
+}
+
+/**
+ * How far (frame px) the warps read around a pixel on a width × height frame: a warped pixel samples
+ * along its ray from the centre, within the radius (plus the bilinear neighbour), and each warp reads
+ * what the ones before it moved.
+ */
+export function warpReach(elements: PlacedElement[], width: number, height: number) {
+  const short = Math.min(width, height);
+  return elements.reduce((reach, e) => (e.type === "warp" && e.strength !== 0 ? reach + Math.ceil(e.size * short) + 1 : reach), 0);
+}
+
+/**
+ * Radial bulge (strength > 0) or pinch (< 0) around (cx, cy), in place.
+ * Samples the untouched copy bilinearly; pixels outside the radius are unchanged.
+ */
+export function applyWarp(img: PixelBuffer, cx: number, cy: number, radius: number, strength: number): PixelBuffer {
+  if (radius < 1 || strength === 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const src = d.slice();
+  const exp = Math.pow(2, Math.max(-1, Math.min(1, strength)) * 1.3);
+
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const x1 = Math.min(W - 1, Math.ceil(cx + radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const y1 = Math.min(H - 1, Math.ceil(cy + radius));
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist >= radius || dist === 0) continue;
+      const k = Math.pow(dist / radius, exp - 1); // <1 samples nearer the center → magnify
+      const sx = Math.min(W - 1, Math.max(0, cx + dx * k));
+      const sy = Math.min(H - 1, Math.max(0, cy + dy * k));
+
+      const ix = sx | 0;
+      const iy = sy | 0;
+      const ix1 = Math.min(W - 1, ix + 1);
+      const iy1 = Math.min(H - 1, iy + 1);
+      const tx = sx - ix;
+      const ty = sy - iy;
+      const o = (y * W + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        const a = src[(iy * W + ix) * 4 + c];
+        const b = src[(iy * W + ix1) * 4 + c];
+        const e = src[(iy1 * W + ix) * 4 + c];
+        const f = src[(iy1 * W + ix1) * 4 + c];
+        d[o + c] = (a + (b - a) * tx) * (1 - ty) + (e + (f - e) * tx) * ty;
+      }
+    }
+  }
+  return img;
+}
+
+/** Red-hot glowing eye: bright core, red halo and a four-point star. */
+export function drawLensFlare(ctx: Canvas2D, x: number, y: number, r: number, intensity: number) {
+  ctx.save();
+  ctx.globalCompositeOperation = "lighter";
+
+  const halo = ctx.createRadialGradient(x, y, 0, x, y, r * 3);
+  halo.addColorStop(0, `rgba(255,255,255,${intensity})`);
+  halo.addColorStop(0.15, `rgba(255,80,40,${0.9 * intensity})`);
+  halo.addColorStop(0.5, `rgba(255,0,0,${0.35 * intensity})`);
+  halo.addColorStop(1, "rgba(255,0,0,0)");
+  ctx.fillStyle = halo;
+  ctx.fillRect(x - r * 3, y - r * 3, r * 6, r * 6);
+
+  // star streaks: a squashed radial gradient per direction
+  for (const angle of [0, Math.PI / 2, Math.PI / 4, -Math.PI / 4]) {
+    const long = angle % (Math.PI / 2) === 0 ? r * 6 : r * 3;
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.scale(1, 0.06);
+    const streak = ctx.createRadialGradient(0, 0, 0, 0, 0, long);
+    streak.addColorStop(0, `rgba(255,240,220,${intensity})`);
+    streak.addColorStop(0.3, `rgba(255,60,30,${0.5 * intensity})`);
+    streak.addColorStop(1, "rgba(255,0,0,0)");
+    ctx.fillStyle = streak;
+    ctx.fillRect(-long, -long, long * 2, long * 2);
+    ctx.restore();
+  }
+  ctx.restore();
+}
+
+export function drawEmoji(ctx: Canvas2D, emoji: string, x: number, y: number, r: number) {
+  ctx.save();
+  ctx.font = `${Math.round(r * 2)}px "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(emoji, x, y);
+  ctx.restore();
+}
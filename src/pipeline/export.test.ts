@@ -0,0 +1,28 @@
+import { DEFAULT_FRY_PARAMS } from "./fry";
+import { buildExportJob, formatFilename, MAX_EXPORT_EDGE, resolveExportSize } from "./export";
+
+test("export sizes resolve against the original bitmap", () => {
+  expect(resolveExportSize(4000, 3000, { mode: "original" })).toEqual({ width: 4000, height: 3000 });
+  expect(resolveExportSize(4000, 3000, { mode: "preview" })).toEqual({ width: 1600, height: 1200 });
+  expect(resolveExportSize(4000, 3000, { mode: "scale", scale: 0.5 })).toEqual({ width: 2000, height: 1500 });
+  expect(resolveExportSize(3000, 4000, { mode: "longEdge", px: 1000 })).toEqual({ width: 750, height: 1000 });
+});
+
+test("export size is capped at the canvas limit", () => {
+  const out = resolveExportSize(4000, 2000, { mode: "scale", scale: 4 });
+  expect(out).toEqual({ width: MAX_EXPORT_EDGE, height: MAX_EXPORT_EDGE / 2 });
+});
+
+test("overlays scale with export size relative to the preview", () => {
+  const job = buildExportJob(DEFAULT_FRY_PARAMS, [{ type: "scanlines", strength: 0.2 }], 4800, 3200, { mode: "original" });
+  expect(job.options.overlayScale).toBe(3);
+  expect(job.options.heavy).toBe(true);
+});
+
+test("filename templates fill tokens and append the format extension", () => {
+  const date = new Date(2025, 8, 23, 21, 54, 5);
+  const info = { preset: "ultra", width: 1200, height: 900, date };
+  expect(formatFilename("deepfry-{preset}-{timestamp}", { ...info, format: "webp" })).toBe("deepfry-ultra-2025-09-23_215405.webp");
+  expect(formatFilename("{date}/{w}x{h}", { ...info, format: "jpeg" })).toBe("2025-09-23-1200x900.jpg");
+  expect(formatFilename("  ", { ...info, format: "png" })).toBe("deepfry.png");
+});
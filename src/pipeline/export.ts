@@ -0,0 +1,138 @@
+import { stripJpegMetadata, withExif } from "../codecs/exif";
+import { encodeGif } from "../codecs/gifEncoder";
+import { FryParams } from "./fry";
+import { AnyCanvas, canvasToBlob, createCanvas, get2d } from "./canvas";
+import { OverlaySpec } from "./overlays";
+import { finishFrame, previewSize, renderFrame, RenderOptions } from "./render";
+import { RenderJob } from "./renderProtocol";
+
+/**
+ * Export path — re-runs the whole pipeline off-screen at export size.
+ * - Independent of the on-screen preview cap
+ * - Overlays scale with the ratio of export size to preview size
+ * - Color pass always in JS (exact), so a recipe exports the same on every browser
+ * - JPEG/PNG/WebP encoding with quality and templated filenames
+ * - GIF goes through the in-repo encoder (browsers can't encode it)
+ * - JPEGs leave without metadata unless asked to keep the source EXIF
+ */
+
+export type ExportFormat = "jpeg" | "png" | "webp" | "gif";
+
+export interface ExportSettings {
+  size: ExportSize;
+  format: ExportFormat;
+  quality: number; // 0.1..1, ignored for PNG
+  filename: string; // template, see formatFilename
+  stripMetadata: boolean; // false = copy the source EXIF into JPEG exports
+}
+
+export type ExportSize =
+  | { mode: "preview" }
+  | { mode: "original" }
+  | { mode: "scale"; scale: number }
+  | { mode: "longEdge"; px: number };
+
+// Browsers refuse or crash on canvases much bigger than this
+export const MAX_EXPORT_EDGE = 8192;
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; ext: string; lossy: boolean }> = {
+  jpeg: { label: "JPEG", mime: "image/jpeg", ext: "jpg", lossy: true },
+  png: { label: "PNG", mime: "image/png", ext: "png", lossy: false },
+  webp: { label: "WebP", mime: "image/webp", ext: "webp", lossy: true },
+  gif: { label: "GIF", mime: "image/gif", ext: "gif", lossy: false },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  size: { mode: "original" },
+  format: "jpeg",
+  quality: 0.9,
+  filename: "deepfry-{preset}-{timestamp}",
+  stripMetadata: true,
+};
+
+export function resolveExportSize(srcW: number, srcH: number, size: ExportSize) {
+  let scale = 1;
+  if (size.mode === "preview") scale = previewSize(srcW, srcH).width / srcW;
+  else if (size.mode === "scale") scale = size.scale;
+  else if (size.mode === "longEdge") scale = size.px / Math.max(srcW, srcH);
+  scale = Math.min(scale, MAX_EXPORT_EDGE / Math.max(srcW, srcH));
+  return {
+    width: Math.max(1, Math.round(srcW * scale)),
+    height: Math.max(1, Math.round(srcH * scale)),
+  };
+}
+
+export function buildExportJob(
+  params: FryParams,
+  overlays: OverlaySpec[],
+  srcW: number,
+  srcH: number,
+  size: ExportSize,
+  layers: Pick<RenderOptions, "stack" | "elements" | "text" | "mask"> = {}
+): RenderJob {
+  const { width, height } = resolveExportSize(srcW, srcH, size);
+  const preview = previewSize(srcW, srcH);
+  return {
+    params,
+    options: {
+      overlays,
+      ...layers,
+      width,
+      height,
+      heavy: true,
+      exactColor: true,
+      overlayScale: Math.max(width, height) / Math.max(preview.width, preview.height),
+    },
+  };
+}
+
+/** Renders an export job on the calling thread into a fresh off-screen canvas. */
+export function renderExport(source: CanvasImageSource, job: RenderJob): Promise<AnyCanvas> {
+  const canvas = createCanvas(job.options.width, job.options.height);
+  renderFrame(get2d(canvas, true), source, job.params, job.options);
+  return finishFrame(canvas, job.params, job.options, source);
+}
+
+export function imageDataToCanvas(image: ImageData): AnyCanvas {
+  const canvas = createCanvas(image.width, image.height);
+  get2d(canvas).putImageData(image, 0, 0);
+  return canvas;
+}
+
+/** `exif` is the source's EXIF block, written into JPEGs when metadata isn't stripped. */
+export async function encodeExport(canvas: AnyCanvas, settings: ExportSettings, exif: Uint8Array | null = null): Promise<Blob> {
+  const f = EXPORT_FORMATS[settings.format];
+  if (settings.format === "gif") {
+    const image = get2d(canvas, true).getImageData(0, 0, canvas.width, canvas.height);
+    return new Blob([encodeGif([{ image, delay: 0 }])], { type: f.mime });
+  }
+  const blob = await canvasToBlob(canvas, f.mime, f.lossy ? settings.quality : undefined);
+  if (settings.format !== "jpeg") return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const out = exif && !settings.stripMetadata ? withExif(bytes, exif) : stripJpegMetadata(bytes);
+  return out === bytes ? blob : new Blob([out], { type: f.mime });
+}
+
+/**
+ * Fills a filename template and appends the format's extension.
+ * Tokens: {name} {preset} {timestamp} {date} {w} {h}
+ */
+export function formatFilename(
+  template: string,
+  info: { name?: string; preset: string; width: number; height: number; format: ExportFormat; date?: Date }
+): string {
+  const d = info.date ?? new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  const time = `${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+  const name = template
+    .replace(/\{name\}/g, info.name ?? "image")
+    .replace(/\{preset\}/g, info.preset)
+    .replace(/\{timestamp\}/g, `${date}_${time}`)
+    .replace(/\{date\}/g, date)
+    .replace(/\{w\}/g, String(info.width))
+    .replace(/\{h\}/g, String(info.height))
+    .replace(/[\\/:*?"<>|]+/g, "-")
+    .trim();
+  return `${name || "deepfry"}.${EXPORT_FORMATS[info.format].ext}`;
+}
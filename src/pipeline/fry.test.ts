@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+import { applyColorFilter, cssFilterFor, fry, FryParams, PixelBuffer } from "./fry";
+
+const NEUTRAL: FryParams = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  exposureEV: 0,
+  burn: 0,
+  noise: 0,
+  noiseMode: "mono",
+  seed: 1,
+  posterize: 0,
+  crunch: 0,
+  crunchQuality: 0.3,
+  sharpenAmount: 0,
+  sharpenRadius: 2,
+  sharpenThreshold: 0,
+  edgeEnhance: 0,
+  emboss: 0,
+  blockSize: 8,
+  blockiness: 0,
+  chromaShift: 0,
+  chromaAngle: 0,
+  chromaLens: 0,
+  scanlineSpacing: 2,
+  vhsJitter: 0,
+  chromaBleed: 0,
+  tapeNoise: 0,
+};
+
+function gray(width: number, height: number, v = 128): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4).fill(v);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return { data, width, height };
+}
+
+function buffer(pixels: number[][]): PixelBuffer {
+  const data = new Uint8ClampedArray(pixels.length * 4);
+  pixels.forEach((p, i) => data.set([p[0], p[1], p[2], p[3] ?? 255], i * 4));
+  return { data, width: pixels.length, height: 1 };
+}
+
+test("neutral params leave pixels untouched", () => {
+  const img = buffer([[0, 0, 0], [12, 128, 240], [255, 255, 255]]);
+  const before = Array.from(img.data);
+  fry(img, NEUTRAL);
+  expect(Array.from(img.data)).toEqual(before);
+});
+
+test("brightness above 200% is split between CSS cap and pixel gain", () => {
+  expect(cssFilterFor({ ...NEUTRAL, brightness: 400 })).toContain("brightness(200%)");
+  const img = buffer([[20, 30, 40]]);
+  fry(img, { ...NEUTRAL, brightness: 400 });
+  expect(Array.from(img.data.slice(0, 3))).toEqual([80, 120, 160]);
+});
+
+test("color filter keeps grays gray under saturate and hue-rotate", () => {
+  const img = buffer([[100, 100, 100]]);
+  applyColorFilter(img, { ...NEUTRAL, saturation: 250, hue: 90 });
+  const [r, g, b] = Array.from(img.data);
+  expect(Math.abs(r - 100)).toBeLessThanOrEqual(1);
+  expect(Math.abs(g - 100)).toBeLessThanOrEqual(1);
+  expect(Math.abs(b - 100)).toBeLessThanOrEqual(1);
+});
+
+test("posterize snaps channels to the requested levels", () => {
+  const img = buffer([[10, 100, 200]]);
+  fry(img, { ...NEUTRAL, posterize: 3 });
+  expect(Array.from(img.data.slice(0, 3))).toEqual([0, 127, 255]);
+});
+
+test("noise uses the injected random source and leaves alpha alone", () => {
+  const img = buffer([[100, 100, 100, 77]]);
+  fry(img, { ...NEUTRAL, noise: 0.1 }, { random: () => 1 });
+  expect(Array.from(img.data)).toEqual([125, 125, 125, 77]);
+});
+
+test("same seed gives the same grain, a new seed rerolls it", () => {
+  const noisy = { ...NEUTRAL, noise: 0.2, seed: 42 };
+  const a = fry(gray(8, 8), noisy);
+  const b = fry(gray(8, 8), noisy);
+  const c = fry(gray(8, 8), { ...noisy, seed: 43 });
+  expect(Array.from(a.data)).toEqual(Array.from(b.data));
+  expect(Array.from(a.data)).not.toEqual(Array.from(c.data));
+});
+
+test("mono grain keeps pixels neutral, color grain splits channels", () => {
+  const mono = fry(gray(4, 4), { ...NEUTRAL, noise: 0.3, noiseMode: "mono" }).data;
+  const color = fry(gray(4, 4), { ...NEUTRAL, noise: 0.3, noiseMode: "color" }).data;
+  let monoSplit = 0;
+  let colorSplit = 0;
+  for (let i = 0; i < mono.length; i += 4) {
+    if (mono[i] !== mono[i + 1] || mono[i] !== mono[i + 2]) monoSplit++;
+    if (color[i] !== color[i + 1] || color[i] !== color[i + 2]) colorSplit++;
+  }
+  expect(monoSplit).toBe(0);
+  expect(colorSplit).toBeGreaterThan(0);
+});
+
+test("full pipeline output is reproducible", () => {
+  const img = gray(4, 2, 90);
+  fry(img, { ...NEUTRAL, brightness: 130, contrast: 110, burn: 40, noise: 0.15, noiseMode: "color", seed: 7 });
+  expect(Array.from(img.data)).toMatchSnapshot();
+});
+
+// What ctx.filter produces, per the Filter Effects spec formulas (sRGB, clamped per function)
+describe("JS color pass matches the CSS filter reference", () => {
+  const SAMPLE = [[255, 0, 0], [200, 120, 40], [30, 90, 200], [128, 128, 128]];
+
+  test.each([
+    ["brightness(150%)", { brightness: 150 }, [[255, 0, 0], [255, 180, 60], [45, 135, 255], [192, 192, 192]]],
+    ["contrast(160%)", { contrast: 160 }, [[255, 0, 0], [243, 115, 0], [0, 68, 243], [128, 128, 128]]],
+    ["saturate(200%)", { saturation: 200 }, [[255, 0, 0], [255, 109, 0], [0, 95, 255], [128, 128, 128]]],
+    ["hue-rotate(90deg)", { hue: 90 }, [[0, 91, 0], [40, 165, 63], [200, 45, 140], [128, 128, 128]]],
+    ["all four", { brightness: 150, contrast: 130, saturation: 180, hue: 45 }, [[158, 42, 0], [100, 239, 13], [128, 107, 255], [211, 211, 211]]],
+  ])("%s", (_, p, expected) => {
+    const img = applyColorFilter(buffer(SAMPLE), { ...NEUTRAL, ...p });
+    SAMPLE.forEach((_, i) => {
+      for (let c = 0; c < 3; c++) expect(Math.abs(img.data[i * 4 + c] - expected[i][c])).toBeLessThanOrEqual(1);
+    });
+  });
+
+  test("the CSS string carries the same four values", () => {
+    expect(cssFilterFor({ ...NEUTRAL, brightness: 150, contrast: 130, saturation: 180, hue: 45 })).toBe(
+      "brightness(150%) contrast(130%) saturate(180%) hue-rotate(45deg)"
+    );
+  });
+});
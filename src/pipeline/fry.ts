@@ -0,0 +1,367 @@
+import { applyChannelShift, applyChromaBleed, applyTapeNoise, applyTrackingJitter } from "./analog";
+import { Frame } from "./canvas";
+import { mulberry32, pixelNoise, streamSeed } from "./random";
+import { applyBlockiness, applyKernel3x3, applyUnsharpMask, EDGE_KERNEL, EMBOSS_KERNEL } from "./spatial";
+
+/**
+ * Fry pipeline — pure pixel math, no DOM.
+ * - Works on any { data, width, height } buffer (ImageData fits)
+ * - Safe to call from Node tests, workers and other apps
+ * - `color` pass is a JS port of the CSS brightness/contrast/saturate/hue-rotate filter
+ * - Brightness above 200% is applied as extra gain in the pixel pass
+ * - Noise is seeded by pixel position: same params → same grain at the same pixel, whatever part is rendered
+ * - Passes that depend on where a pixel sits (grain, bloom cells, blocks, lens, tape) take an optional
+ *   `frame`: where the whole image lies on the buffer, so a region renders exactly its part of the whole
+ * - Sharpen/edge/emboss and blockiness are spatial passes (see spatial.ts), heavy-only
+ * - RGB shift and VHS damage come last (see analog.ts); tape damage has its own seeded streams
+ * - The pixel pass also comes apart into single steps for the effect stack (see stack.ts), still one float sweep
+ */
+
+export type NoiseMode = "mono" | "color";
+
+export interface FryParams {
+  brightness: number; // 50..400 %
+  contrast: number; // %
+  saturation: number; // %
+  hue: number; // deg
+  exposureEV: number; // -2..+2 (stops)
+  burn: number; // 0..100 (%)
+  noise: number; // 0..1
+  noiseMode: NoiseMode; // mono = same offset on r/g/b, color = per channel
+  seed: number; // grain seed (uint32)
+  posterize: number; // 0..8
+  crunch: number; // JPEG re-encode generations, 0..20 (canvas layer, not `fry`)
+  crunchQuality: number; // 0.05..0.6 encoder quality per generation
+  sharpenAmount: number; // 0..5 unsharp mask gain
+  sharpenRadius: number; // px at preview size
+  sharpenThreshold: number; // 0..64 levels
+  edgeEnhance: number; // 0..1
+  emboss: number; // 0..1
+  blockSize: number; // px at preview size
+  blockiness: number; // 0..1
+  chromaShift: number; // px at preview size, red/blue channel offset (see analog.ts)
+  chromaAngle: number; // deg, direction of the offset
+  chromaLens: number; // px of radial fringing at the corners
+  scanlineSpacing: number; // px at preview size between scanline starts
+  vhsJitter: number; // 0..1 tracking jitter
+  chromaBleed: number; // 0..1
+  tapeNoise: number; // 0..1
+}
+
+export const DEFAULT_FRY_PARAMS: FryParams = {
+  brightness: 120,
+  contrast: 120,
+  saturation: 140,
+  hue: 0,
+  exposureEV: 0,
+  burn: 35,
+  noise: 0.08,
+  noiseMode: "mono",
+  seed: 1,
+  posterize: 0,
+  crunch: 0,
+  crunchQuality: 0.3,
+  sharpenAmount: 0,
+  sharpenRadius: 2,
+  sharpenThreshold: 0,
+  edgeEnhance: 0,
+  emboss: 0,
+  blockSize: 8,
+  blockiness: 0,
+  chromaShift: 0,
+  chromaAngle: 0,
+  chromaLens: 0,
+  scanlineSpacing: 2,
+  vhsJitter: 0,
+  chromaBleed: 0,
+  tapeNoise: 0,
+};
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface FryOptions {
+  // run the CSS-equivalent color pass (turn off when the canvas filter already did it)
+  color?: boolean;
+  // posterize, noise and bloom; skipped while scrubbing
+  heavy?: boolean;
+  // source of randomness for the noise pass, drawn in raster order (defaults to grain seeded from params.seed by position)
+  random?: () => number;
+  // output px per preview px; scales sharpen radius and block size so exports match the preview
+  unit?: number;
+}
+
+// CSS filters cap brightness here; the rest is pixel gain
+export const CSS_BRIGHTNESS_CAP = 200;
+
+/**
+ * Runs the whole fry pipeline in place and returns the same buffer.
+ * Order matches the studio's classic stack: color filter → sharpen/edges → exposure/burn/posterize/noise →
+ * bloom → blocks → RGB shift → VHS.
+ */
+export function fry(img: PixelBuffer, params: FryParams, options: FryOptions = {}): PixelBuffer {
+  const { color = true, heavy = true, random, unit = 1 } = options;
+  if (color) applyColorFilter(img, params);
+  if (heavy) {
+    applyUnsharpMask(img, params.sharpenAmount, params.sharpenRadius * unit, params.sharpenThreshold);
+    applyKernel3x3(img, EDGE_KERNEL, params.edgeEnhance);
+    applyKernel3x3(img, EMBOSS_KERNEL, params.emboss);
+  }
+  applyPixelPass(img, params, heavy, random ?? seededGrain(params.seed));
+  if (heavy && params.burn > 0) applyBloom(img, 0.35 * burnAmount(params.burn));
+  if (heavy) applyBlockiness(img, params.blockSize * unit, params.blockiness);
+  applyChannelShift(img, params.chromaShift * unit, params.chromaAngle, params.chromaLens * unit);
+  if (heavy) {
+    applyTrackingJitter(img, params.vhsJitter, mulberry32(streamSeed(params.seed, "jitter")), unit);
+    applyChromaBleed(img, params.chromaBleed, unit);
+    applyTapeNoise(img, params.tapeNoise, mulberry32(streamSeed(params.seed, "tape")), unit);
+  }
+  return img;
+}
+
+/** CSS filter string for the same color pass, for canvases that support `ctx.filter`. */
+export function cssFilterFor(params: FryParams): string {
+  const cssB = Math.min(params.brightness, CSS_BRIGHTNESS_CAP);
+  return `brightness(${cssB}%) contrast(${params.contrast}%) saturate(${params.saturation}%) hue-rotate(${params.hue}deg)`;
+}
+
+/** True when the four color adjustments are all at their no-op values. */
+export function isNeutralColor(params: FryParams) {
+  return params.brightness === 100 && params.contrast === 100 && params.saturation === 100 && params.hue === 0;
+}
+
+/**
+ * JS equivalent of `cssFilterFor`, following the Filter Effects spec:
+ * each function is applied in sRGB and clamped before the next one.
+ */
+export function applyColorFilter(img: PixelBuffer, params: FryParams): PixelBuffer {
+  const br = Math.min(params.brightness, CSS_BRIGHTNESS_CAP) / 100;
+  const ct = params.contrast / 100;
+  const sat = saturateMatrix(params.saturation / 100);
+  const rot = hueRotateMatrix(params.hue);
+  const d = img.data;
+
+  // brightness + contrast are per channel, so a lookup table is exact
+  const lut = new Float32Array(256);
+  for (let v = 0; v < 256; v++) lut[v] = unit(unit((v / 255) * br) * ct + 0.5 - 0.5 * ct);
+
+  for (let i = 0; i < d.length; i += 4) {
+    // brightness + contrast, 0..1
+    let r = lut[d[i]];
+    let g = lut[d[i + 1]];
+    let b = lut[d[i + 2]];
+
+    let r2 = unit(sat[0] * r + sat[1] * g + sat[2] * b);
+    let g2 = unit(sat[3] * r + sat[4] * g + sat[5] * b);
+    let b2 = unit(sat[6] * r + sat[7] * g + sat[8] * b);
+
+    r = unit(rot[0] * r2 + rot[1] * g2 + rot[2] * b2);
+    g = unit(rot[3] * r2 + rot[4] * g2 + rot[5] * b2);
+    b = unit(rot[6] * r2 + rot[7] * g2 + rot[8] * b2);
+
+    d[i] = Math.round(r * 255);
+    d[i + 1] = Math.round(g * 255);
+    d[i + 2] = Math.round(b * 255);
+  }
+  return img;
+}
+
+// Per-pixel steps the pixel pass is made of; the effect stack can reorder them
+export type PixelStep = "exposure" | "burn" | "posterize" | "noise";
+
+/** Grain 0..1 for channel `c` (always 0 in mono) of the image pixel at `x`, `y`. */
+export type GrainSource = (x: number, y: number, c: number) => number;
+
+export function seededGrain(seed: number): GrainSource {
+  return (x, y, c) => pixelNoise(seed, x, y, c);
+}
+
+/** Exposure, extra brightness gain, burn warming, posterize and noise. */
+export function applyPixelPass(
+  img: PixelBuffer,
+  params: FryParams,
+  heavy = true,
+  grain: GrainSource = seededGrain(params.seed)
+): PixelBuffer {
+  return applyPixelSteps(img, params, heavy ? ["exposure", "burn", "posterize", "noise"] : ["exposure", "burn"], grain);
+}
+
+/**
+ * The per-pixel steps in the given order, in one sweep. Values stay floats between
+ * steps and are clamped once at the end, so the classic order is exactly the pixel pass.
+ */
+export function applyPixelSteps(
+  img: PixelBuffer,
+  params: FryParams,
+  steps: PixelStep[],
+  grain: GrainSource = seededGrain(params.seed),
+  frame?: Frame
+): PixelBuffer {
+  const { width: W, height: H, data: d } = img;
+  const ox = frame ? -Math.round(frame.x) : 0; // image position of the buffer's top-left, for grain
+  const oy = frame ? -Math.round(frame.y) : 0;
+
+  const exposureGain = Math.pow(2, params.exposureEV);
+  const extraGain = Math.max(1, params.brightness / CSS_BRIGHTNESS_CAP); // > 200% boosted here
+  const gain = exposureGain * extraGain;
+
+  const step = params.posterize > 1 ? 255 / (params.posterize - 1) : 0;
+
+  const noiseAmp = params.noise * 255;
+  const colorNoise = params.noiseMode === "color";
+
+  const burnAmt = burnAmount(params.burn);
+  const { warmBoost, hlPush, blueCut } = burnCurve(burnAmt);
+
+  const order = steps.filter((s) =>
+    s === "exposure" ? gain !== 1 : s === "burn" ? burnAmt > 0 : s === "posterize" ? step > 0 : noiseAmp > 0
+  );
+  if (!order.length) return img;
+
+  for (let i = 0, y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++, i += 4) {
+      let r = d[i];
+      let g = d[i + 1];
+      let b = d[i + 2];
+
+      for (const s of order) {
+        if (s === "exposure") {
+          r *= gain;
+          g *= gain;
+          b *= gain;
+        } else if (s === "burn") {
+          const L = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+          const t = Math.min(1, Math.max(0, (L - 110) / 145)); // start warming earlier
+          const push = 1 + hlPush * t;
+          r = r * push + 255 * warmBoost * t * 0.6;
+          g = g * (1 + hlPush * 0.65 * t) + 255 * warmBoost * t * 0.3;
+          b = b * (1 + hlPush * 0.35 * t) - 255 * blueCut * t * 0.2;
+        } else if (s === "posterize") {
+          r = Math.round(r / step) * step;
+          g = Math.round(g / step) * step;
+          b = Math.round(b / step) * step;
+        } else if (colorNoise) {
+          r += (grain(x + ox, y + oy, 0) - 0.5) * 2 * noiseAmp;
+          g += (grain(x + ox, y + oy, 1) - 0.5) * 2 * noiseAmp;
+          b += (grain(x + ox, y + oy, 2) - 0.5) * 2 * noiseAmp;
+        } else {
+          const n = (grain(x + ox, y + oy, 0) - 0.5) * 2 * noiseAmp;
+          r += n;
+          g += n;
+          b += n;
+        }
+      }
+
+      d[i] = clamp(r);
+      d[i + 1] = clamp(g);
+      d[i + 2] = clamp(b);
+    }
+  }
+  return img;
+}
+
+/**
+ * Heat bloom: box-downsample to a quarter, bilinear upsample, screen-blend over the image.
+ * JS version of the canvas downscale-upscale trick. The cells sit on the whole image's grid (see `frame`).
+ */
+export function applyBloom(img: PixelBuffer, alpha: number, scale = 0.25, frame?: Frame): PixelBuffer {
+  if (alpha <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const S = Math.max(1, Math.round(1 / scale)); // cell size
+  const ox = frame ? -Math.round(frame.x) : 0;
+  const oy = frame ? -Math.round(frame.y) : 0;
+  const cx0 = Math.floor(ox / S); // first cell on the buffer, in image cells
+  const cy0 = Math.floor(oy / S);
+  const bw = Math.floor((W - 1 + ox) / S) - cx0 + 1;
+  const bh = Math.floor((H - 1 + oy) / S) - cy0 + 1;
+
+  // box downsample
+  const small = new Float32Array(bw * bh * 3);
+  const counts = new Float32Array(bw * bh);
+  for (let y = 0; y < H; y++) {
+    const sy = Math.floor((y + oy) / S) - cy0;
+    for (let x = 0; x < W; x++) {
+      const sx = Math.floor((x + ox) / S) - cx0;
+      const si = sy * bw + sx;
+      const i = (y * W + x) * 4;
+      small[si * 3] += d[i];
+      small[si * 3 + 1] += d[i + 1];
+      small[si * 3 + 2] += d[i + 2];
+      counts[si]++;
+    }
+  }
+  for (let si = 0; si < counts.length; si++) {
+    const c = counts[si] || 1;
+    small[si * 3] /= c;
+    small[si * 3 + 1] /= c;
+    small[si * 3 + 2] /= c;
+  }
+
+  // bilinear upsample + screen
+  for (let y = 0; y < H; y++) {
+    const fy = Math.min(bh - 1, Math.max(0, (y + oy + 0.5) / S - 0.5 - cy0));
+    const y0 = fy | 0;
+    const y1 = Math.min(bh - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < W; x++) {
+      const fx = Math.min(bw - 1, Math.max(0, (x + ox + 0.5) / S - 0.5 - cx0));
+      const x0 = fx | 0;
+      const x1 = Math.min(bw - 1, x0 + 1);
+      const tx = fx - x0;
+      const i = (y * W + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const a = small[(y0 * bw + x0) * 3 + c];
+        const b = small[(y0 * bw + x1) * 3 + c];
+        const e = small[(y1 * bw + x0) * 3 + c];
+        const f = small[(y1 * bw + x1) * 3 + c];
+        const blur = (a + (b - a) * tx) * (1 - ty) + (e + (f - e) * tx) * ty;
+        const base = d[i + c];
+        const screen = 255 - ((255 - base) * (255 - blur)) / 255;
+        d[i + c] = base + (screen - base) * alpha;
+      }
+    }
+  }
+  return img;
+}
+
+export function burnAmount(burn: number) {
+  return Math.max(0, Math.min(1, burn / 100)); // 0..1
+}
+
+function burnCurve(burnAmt: number) {
+  return {
+    warmBoost: 0.45 * burnAmt, // stronger warmth
+    hlPush: 1.15 * burnAmt, // stronger highlight push
+    blueCut: 0.28 * burnAmt, // reduce blue more
+  };
+}
+
+export function clamp(v: number) {
+  return Math.max(0, Math.min(255, v | 0));
+}
+
+function unit(v: number) {
+  return v < 0 ? 0 : v > 1 ? 1 : v;
+}
+
+function saturateMatrix(s: number): number[] {
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ];
+}
+
+function hueRotateMatrix(deg: number): number[] {
+  const a = (deg * Math.PI) / 180;
+  const c = Math.cos(a);
+  const s = Math.sin(a);
+  return [
+    0.213 + c * 0.787 - s * 0.213, 0.715 - c * 0.715 - s * 0.715, 0.072 - c * 0.072 + s * 0.928,
+    0.213 - c * 0.213 + s * 0.143, 0.715 + c * 0.285 + s * 0.14, 0.072 - c * 0.072 - s * 0.283,
+    0.213 - c * 0.213 - s * 0.787, 0.715 - c * 0.715 + s * 0.715, 0.072 + c * 0.928 + s * 0.072,
+  ];
+}
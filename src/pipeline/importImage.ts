@@ -0,0 +1,30 @@
+import { readJpegInfo } from "../codecs/exif";
+import { applyTransform, exifTransform } from "./transform";
+
+/**
+ * Still-image import — decode upright, whatever the browser does with EXIF.
+ * - Asks the decoder to apply EXIF orientation
+ * - Quarter-turn orientations are checked against the stored JPEG size and fixed up if ignored
+ * - Hands back the raw EXIF so an export can keep it
+ */
+
+export interface ImportedImage {
+  bitmap: ImageBitmap;
+  exif: Uint8Array | null;
+}
+
+export async function importImage(file: Blob): Promise<ImportedImage> {
+  const info = readJpegInfo(new Uint8Array(await file.arrayBuffer()));
+  // "from-image" is missing from this TS version's ImageOrientation
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" } as unknown as ImageBitmapOptions);
+  if (!info || info.orientation === 1) return { bitmap, exif: info?.exif ?? null };
+
+  // only quarter turns are detectable: an applied one swaps width and height
+  const quarter = info.orientation >= 5;
+  const ignored = quarter && info.width !== info.height && bitmap.width === info.width && bitmap.height === info.height;
+  if (!ignored) return { bitmap, exif: info.exif };
+
+  const upright = await createImageBitmap(applyTransform(bitmap, exifTransform(info.orientation)));
+  bitmap.close();
+  return { bitmap: upright, exif: info.exif };
+}
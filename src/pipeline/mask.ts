@@ -0,0 +1,155 @@
+import { AnyCanvas, Canvas2D, createCanvas, get2d, Frame } from "./canvas";
+
+/**
+ * Fry mask — where the fried image shows over the original.
+ * - Vector shapes (brush strokes, radial and linear gradients), image-relative,
+ *   so the mask holds at any preview size and at full-res export
+ * - Shapes add up; erase strokes cut back; invert flips the whole mask
+ * - No shapes means no mask: the whole frame is fried
+ */
+
+export interface Point {
+  x: number; // 0..1 of width
+  y: number; // 0..1 of height
+}
+
+export interface BrushStroke {
+  kind: "brush";
+  points: Point[];
+  size: number; // radius, as a fraction of the shorter image edge
+  hardness: number; // 0..1, solid core as a fraction of the radius
+  erase: boolean;
+}
+
+export interface RadialMask {
+  kind: "radial";
+  x: number;
+  y: number;
+  radius: number; // fraction of the shorter edge
+  feather: number; // 0..1 of the radius
+}
+
+export interface LinearMask {
+  kind: "linear";
+  from: Point; // fully masked on this side
+  to: Point; // clear from here on
+}
+
+export type MaskShape = BrushStroke | RadialMask | LinearMask;
+
+export interface FryMask {
+  shapes: MaskShape[];
+  invert: boolean;
+}
+
+export const DEFAULT_MASK: FryMask = { shapes: [], invert: false };
+
+export function hasMask(mask: FryMask | undefined): mask is FryMask {
+  return !!mask && mask.shapes.length > 0;
+}
+
+/**
+ * Rasterises the mask into the alpha channel of a w × h canvas.
+ * `frame` is where the whole image lands on it (a zoomed region reaches outside).
+ */
+export function renderMask(mask: FryMask, w: number, h: number, frame: Frame = { x: 0, y: 0, width: w, height: h }): AnyCanvas {
+  const canvas = createCanvas(w, h);
+  const ctx = get2d(canvas);
+  const short = Math.min(frame.width, frame.height);
+  const px = (p: Point) => ({ x: frame.x + p.x * frame.width, y: frame.y + p.y * frame.height });
+
+  for (const s of mask.shapes) {
+    ctx.globalCompositeOperation = s.kind === "brush" && s.erase ? "destination-out" : "source-over";
+    if (s.kind === "brush") {
+      drawStroke(ctx, s.points.map(px), Math.max(0.5, s.size * short), s.hardness);
+    } else if (s.kind === "radial") {
+      const c = px(s);
+      const r = Math.max(1, s.radius * short);
+      const g = ctx.createRadialGradient(c.x, c.y, r * (1 - s.feather), c.x, c.y, r);
+      g.addColorStop(0, "#fff");
+      g.addColorStop(1, "rgba(255,255,255,0)");
+      ctx.fillStyle = g;
+      ctx.fillRect(0, 0, w, h);
+    } else {
+      const a = px(s.from);
+      const b = px(s.to);
+      const g = ctx.createLinearGradient(a.x, a.y, b.x, b.y);
+      g.addColorStop(0, "#fff");
+      g.addColorStop(1, "rgba(255,255,255,0)");
+      ctx.fillStyle = g;
+      ctx.fillRect(0, 0, w, h);
+    }
+  }
+
+  if (mask.invert) {
+    // xor with solid white leaves alpha = 1 - mask
+    ctx.globalCompositeOperation = "xor";
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, w, h);
+  }
+  ctx.globalCompositeOperation = "source-over";
+  return canvas;
+}
+
+/**
+ * Keeps the fried pixels already on `ctx` only where the mask is set and puts
+ * `original` (aligned with the canvas) underneath.
+ */
+export function applyMask(ctx: Canvas2D, original: CanvasImageSource, mask: FryMask, frame: Frame) {
+  const { width: w, height: h } = ctx.canvas;
+  const m = renderMask(mask, w, h, frame);
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "destination-in";
+  ctx.drawImage(m, 0, 0);
+  ctx.globalCompositeOperation = "destination-over";
+  ctx.drawImage(original, 0, 0, w, h);
+  ctx.restore();
+}
+
+// Soft round dab, stamped along strokes
+function makeDab(radius: number, hardness: number): AnyCanvas {
+  const size = Math.ceil(radius * 2);
+  const dab = createCanvas(size, size);
+  const ctx = get2d(dab);
+  const g = ctx.createRadialGradient(size / 2, size / 2, radius * Math.min(0.99, hardness), size / 2, size / 2, radius);
+  g.addColorStop(0, "#fff");
+  g.addColorStop(1, "rgba(255,255,255,0)");
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, size, size);
+  return dab;
+}
+
+function drawStroke(ctx: Canvas2D, points: Point[], radius: number, hardness: number) {
+  if (!points.length) return;
+  if (hardness >= 1) {
+    // hard brush: a plain round-capped line
+    ctx.strokeStyle = "#fff";
+    ctx.fillStyle = "#fff";
+    ctx.lineWidth = radius * 2;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+    ctx.stroke();
+    return;
+  }
+  const dab = makeDab(radius, hardness);
+  const half = dab.width / 2;
+  const spacing = Math.max(1, radius * 0.25);
+  ctx.drawImage(dab, points[0].x - half, points[0].y - half);
+  let carry = 0; // distance travelled since the last dab
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    let t = spacing - carry;
+    for (; t <= len; t += spacing) {
+      ctx.drawImage(dab, a.x + ((b.x - a.x) * t) / len - half, a.y + ((b.y - a.y) * t) / len - half);
+    }
+    carry = len - (t - spacing);
+  }
+}
@@ -0,0 +1,85 @@
+import { applyChannelShift } from "./analog";
+import { Canvas2D } from "./canvas";
+import { FryParams } from "./fry";
+
+/**
+ * Canvas overlays drawn after the pixel pass.
+ * - Cheap gradient/composite work; only the RGB split reads pixels back
+ * - `unit` = output pixels per preview pixel, so fixed-size details scale with export resolution
+ * - Presets reference overlays by type through OVERLAYS
+ */
+
+export type OverlayType = "vignette" | "filmBurn" | "scanlines" | "chromAb";
+
+export interface OverlaySpec {
+  type: OverlayType;
+  strength: number; // 0..1
+}
+
+type OverlayDraw = (ctx: Canvas2D, w: number, h: number, strength: number, unit: number, params: FryParams) => void;
+
+export const OVERLAYS: Record<OverlayType, { label: string; draw: OverlayDraw }> = {
+  vignette: { label: "Vignette", draw: (ctx, w, h, s) => drawVignette(ctx, w, h, s) },
+  filmBurn: { label: "Film burn", draw: (ctx, w, h, s, unit) => drawFilmBurn(ctx, w, h, s, unit) },
+  scanlines: { label: "Scanlines", draw: (ctx, w, h, s, unit, p) => drawScanlines(ctx, w, h, s, unit, p.scanlineSpacing) },
+  chromAb: { label: "RGB split", draw: (ctx, w, h, s, unit) => drawChromAb(ctx, w, h, unit, s) },
+};
+
+export function drawOverlays(ctx: Canvas2D, overlays: OverlaySpec[], w: number, h: number, params: FryParams, unit = 1) {
+  for (const o of overlays) OVERLAYS[o.type].draw(ctx, w, h, o.strength, unit, params);
+}
+
+export function drawVignette(ctx: Canvas2D, w: number, h: number, strength: number) {
+  const g = ctx.createRadialGradient(w / 2, h / 2, Math.min(w, h) * 0.25, w / 2, h / 2, Math.max(w, h) * 0.7);
+  g.addColorStop(0, "rgba(0,0,0,0)");
+  g.addColorStop(1, `rgba(0,0,0,${strength})`);
+  ctx.save();
+  ctx.globalCompositeOperation = "multiply";
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+}
+
+export function drawFilmBurn(ctx: Canvas2D, w: number, h: number, energy = 0.8, unit = 1) {
+  const g = ctx.createRadialGradient(w * 0.95, h * 0.05, 10 * unit, w * 0.7, h * 0.1, Math.max(w, h) * 0.85);
+  g.addColorStop(0, `rgba(255,200,100,${0.7 * energy})`);
+  g.addColorStop(0.35, `rgba(255,120,0,${0.35 * energy})`);
+  g.addColorStop(1, "rgba(0,0,0,0)");
+  ctx.save();
+  ctx.globalCompositeOperation = "screen";
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+}
+
+export function drawWarmEdgeBurn(ctx: Canvas2D, w: number, h: number, strength: number) {
+  // warm radial from edges inward
+  const g = ctx.createRadialGradient(w / 2, h / 2, Math.max(w, h) * 0.55, w / 2, h / 2, Math.max(w, h) * 0.95);
+  g.addColorStop(0, "rgba(0,0,0,0)");
+  g.addColorStop(1, `rgba(255,120,0,${Math.min(0.5, strength)})`);
+  ctx.save();
+  ctx.globalCompositeOperation = "screen";
+  ctx.fillStyle = g;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+}
+
+/** Dark lines `spacing` preview px apart, each half the spacing thick. */
+export function drawScanlines(ctx: Canvas2D, w: number, h: number, opacity: number, unit = 1, spacing = 2) {
+  const period = Math.max(2, Math.round(spacing * unit));
+  const line = Math.max(1, Math.round(period / 2));
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.fillStyle = "#000";
+  for (let y = 0; y < h; y += period) ctx.fillRect(0, y, w, line);
+  ctx.restore();
+}
+
+/** Fixed horizontal red/blue split, faded in by `strength`; the RGB shift sliders give full control. */
+export function drawChromAb(ctx: Canvas2D, _w: number, _h: number, unit = 1, strength = 0.35) {
+  // works on the canvas pixels as they are, so ignore any region transform
+  const { width, height } = ctx.canvas;
+  const img = ctx.getImageData(0, 0, width, height);
+  applyChannelShift(img, Math.max(1, 2 * unit), 0, 0, strength);
+  ctx.putImageData(img, 0, 0);
+}
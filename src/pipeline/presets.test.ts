@@ -0,0 +1,37 @@
+import { DEFAULT_FRY_PARAMS } from "./fry";
+import { applyPresetParams, BUILTIN_PRESETS, parsePresets, presetFromState, serializePresets } from "./presets";
+
+test("applying a preset keeps the grain seed", () => {
+  const ultra = BUILTIN_PRESETS.find((p) => p.id === "ultra")!;
+  const out = applyPresetParams({ ...DEFAULT_FRY_PARAMS, seed: 99 }, ultra);
+  expect(out.seed).toBe(99);
+  expect(out.brightness).toBe(200);
+  expect(out.posterize).toBe(6);
+});
+
+test("user presets round-trip through JSON without the seed", () => {
+  const p = presetFromState("House", { ...DEFAULT_FRY_PARAMS, hue: 33, seed: 5 }, [{ type: "vignette", strength: 0.4 }]);
+  const [back] = parsePresets(serializePresets([p]));
+  expect(back).toEqual(p);
+  expect("seed" in back.params).toBe(false);
+});
+
+test("imports reject malformed presets with a readable error", () => {
+  expect(() => parsePresets("nope")).toThrow("Not a valid JSON file");
+  expect(() => parsePresets(JSON.stringify({ name: "x", params: { hue: "red" } }))).toThrow('invalid value for "hue"');
+  expect(() => parsePresets(JSON.stringify({ name: "x", overlays: [{ type: "lasers" }] }))).toThrow('unknown overlay "lasers"');
+  expect(() => parsePresets(JSON.stringify({ version: 99, presets: [] }))).toThrow("newer than this app");
+});
+
+test("imported slider values are clamped to their ranges", () => {
+  const [p] = parsePresets(JSON.stringify([{ name: "wild", params: { posterize: 1e9, blockSize: -4, hue: 12.3 } }]));
+  expect(p.params.posterize).toBe(8);
+  expect(p.params.blockSize).toBe(4);
+  expect(p.params.hue).toBe(12);
+});
+
+test("overlay strengths are clamped on import", () => {
+  const [p] = parsePresets(JSON.stringify([{ name: "loud", overlays: [{ type: "scanlines", strength: 7 }] }]));
+  expect(p.overlays).toEqual([{ type: "scanlines", strength: 1 }]);
+  expect(p.id.startsWith("user-")).toBe(true);
+});
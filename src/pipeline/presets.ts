@@ -0,0 +1,199 @@
+import { ADJUSTMENTS, clampAdjustment } from "./adjustments";
+import { DEFAULT_FRY_PARAMS, FryParams } from "./fry";
+import { OVERLAYS, OverlaySpec, OverlayType } from "./overlays";
+import { BLEND_MODES, createPass, PASSES, PassType, StackPass, stackOverlays } from "./stack";
+
+/**
+ * Declarative presets — slider values plus an ordered overlay list.
+ * - Built-ins and user presets share one shape
+ * - JSON import/export for sharing a house style
+ * - Grain seed is never part of a preset
+ * - Optional effect stack for looks the classic order can't express; its overlay passes are the overlay list
+ */
+
+export type PresetParams = Partial<Omit<FryParams, "seed">>;
+
+export interface Preset {
+  id: string;
+  name: string;
+  shortName?: string; // compact label for mobile
+  params: PresetParams;
+  overlays: OverlaySpec[];
+  stack?: StackPass[]; // pass order, blend and opacity (absent = classic order)
+  builtin?: boolean;
+}
+
+export const PRESET_FILE_VERSION = 1;
+
+const { seed: _seed, ...DEFAULT_PRESET_PARAMS } = DEFAULT_FRY_PARAMS;
+
+// Lens and tape settings at rest, so presets that don't use them switch them off
+const ANALOG_OFF: PresetParams = { chromaShift: 0, chromaAngle: 0, chromaLens: 0, scanlineSpacing: 2, vhsJitter: 0, chromaBleed: 0, tapeNoise: 0 };
+
+export const BUILTIN_PRESETS: Preset[] = [
+  {
+    id: "film",
+    name: "90s Film Burn",
+    shortName: "90s Film",
+    builtin: true,
+    params: { ...ANALOG_OFF, brightness: 115, contrast: 130, saturation: 150, hue: 10, exposureEV: 0.2, burn: 50, noise: 0.12, posterize: 0, crunch: 0, sharpenAmount: 0.4, edgeEnhance: 0, emboss: 0, blockiness: 0 },
+    overlays: [
+      { type: "vignette", strength: 0.5 },
+      { type: "filmBurn", strength: 0.8 },
+    ],
+  },
+  {
+    id: "lofi",
+    name: "Lo-Fi",
+    builtin: true,
+    params: { ...ANALOG_OFF, brightness: 110, contrast: 95, saturation: 70, hue: 8, exposureEV: -0.1, burn: 20, noise: 0.06, posterize: 0, crunch: 0, sharpenAmount: 0, edgeEnhance: 0, emboss: 0, blockiness: 0 },
+    overlays: [{ type: "vignette", strength: 0.7 }],
+  },
+  {
+    id: "vhs",
+    name: "VHS",
+    builtin: true,
+    params: { ...ANALOG_OFF, brightness: 115, contrast: 130, saturation: 120, hue: 0, exposureEV: 0, burn: 30, noise: 0.08, posterize: 0, crunch: 1, sharpenAmount: 0.8, edgeEnhance: 0, emboss: 0, blockiness: 0.2, chromaShift: 2.5, chromaLens: 3, scanlineSpacing: 3, vhsJitter: 0.35, chromaBleed: 0.6, tapeNoise: 0.25 },
+    overlays: [{ type: "scanlines", strength: 0.22 }],
+  },
+  {
+    id: "ultra",
+    name: "Ultra Deep Fried",
+    shortName: "Ultra",
+    builtin: true,
+    params: { ...ANALOG_OFF, brightness: 200, contrast: 200, saturation: 220, hue: 20, exposureEV: 0.8, burn: 75, noise: 0.2, posterize: 6, crunch: 6, sharpenAmount: 3, sharpenRadius: 3, edgeEnhance: 0.4, emboss: 0, blockSize: 8, blockiness: 0.45, chromaShift: 4, chromaAngle: 20, chromaLens: 8, vhsJitter: 0.15, chromaBleed: 0.3, tapeNoise: 0.1 },
+    overlays: [
+      { type: "vignette", strength: 0.85 },
+      { type: "filmBurn", strength: 1.0 },
+      { type: "scanlines", strength: 0.25 },
+    ],
+  },
+  {
+    id: "twice",
+    name: "Fried Twice",
+    shortName: "Twice",
+    builtin: true,
+    params: { ...ANALOG_OFF, brightness: 130, contrast: 150, saturation: 170, hue: 12, exposureEV: 0.3, burn: 55, noise: 0.1, posterize: 0, crunch: 2, sharpenAmount: 1.2, edgeEnhance: 0.2, emboss: 0, blockiness: 0 },
+    overlays: [{ type: "vignette", strength: 0.6 }],
+    stack: [
+      builtinPass("color"),
+      builtinPass("sharpen"),
+      builtinPass("exposure"),
+      builtinPass("burn"),
+      builtinPass("bloom"),
+      // second helping: the whole color + burn again, laid over the first
+      builtinPass("color", { opacity: 0.7, blend: "overlay" }),
+      builtinPass("edges"),
+      builtinPass("burn", { opacity: 0.6, blend: "screen" }),
+      builtinPass("noise"),
+      builtinPass("vignette", { strength: 0.6 }),
+      builtinPass("burnEdges", { blend: "multiply" }),
+    ],
+  },
+  {
+    id: "none",
+    name: "None",
+    builtin: true,
+    params: DEFAULT_PRESET_PARAMS,
+    overlays: [],
+  },
+];
+
+function builtinPass(type: PassType, patch: Partial<StackPass> = {}): StackPass {
+  return { ...createPass(type), ...patch };
+}
+
+/** Current params with the preset's values applied on top (seed untouched). */
+export function applyPresetParams(current: FryParams, preset: Preset): FryParams {
+  return { ...current, ...preset.params, seed: current.seed };
+}
+
+/** Snapshot of the current look as a user preset. */
+export function presetFromState(name: string, params: FryParams, overlays: OverlaySpec[], stack: StackPass[] | null = null): Preset {
+  const { seed: _s, ...rest } = params;
+  const preset: Preset = {
+    id: `user-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`,
+    name,
+    params: rest,
+    overlays: overlays.map((o) => ({ ...o })),
+  };
+  if (stack) preset.stack = stack.map((p) => ({ ...p }));
+  return preset;
+}
+
+/** Short name for filenames: built-in id, slugged user name, or "custom". */
+export function presetFileLabel(preset: Preset | undefined): string {
+  if (!preset) return "custom";
+  if (preset.builtin) return preset.id;
+  return preset.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "preset";
+}
+
+export function serializePresets(presets: Preset[]): string {
+  const clean = presets.map(({ builtin: _b, ...p }) => p);
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets: clean }, null, 2);
+}
+
+/**
+ * Parses a preset file (or a bare array / single preset) and validates every field.
+ * Throws with a readable message on anything malformed.
+ */
+export function parsePresets(text: string): Preset[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+  if (data && typeof data === "object" && !Array.isArray(data) && "version" in data) {
+    if (data.version > PRESET_FILE_VERSION) throw new Error(`Preset file version ${data.version} is newer than this app`);
+    data = data.presets;
+  }
+  const list = Array.isArray(data) ? data : [data];
+  return list.map((raw, i) => validatePreset(raw, i));
+}
+
+function validatePreset(raw: any, index: number): Preset {
+  const where = `Preset #${index + 1}`;
+  if (!raw || typeof raw !== "object") throw new Error(`${where} is not an object`);
+  if (typeof raw.name !== "string" || !raw.name.trim()) throw new Error(`${where} has no name`);
+
+  const params: PresetParams = {};
+  const rawParams = raw.params ?? {};
+  if (typeof rawParams !== "object") throw new Error(`${where}: params must be an object`);
+  for (const key of Object.keys(DEFAULT_PRESET_PARAMS) as (keyof PresetParams)[]) {
+    if (!(key in rawParams)) continue;
+    const v = rawParams[key];
+    const expected = typeof DEFAULT_PRESET_PARAMS[key];
+    if (expected === "number" ? typeof v !== "number" || !isFinite(v) : v !== "mono" && v !== "color") {
+      throw new Error(`${where}: invalid value for "${key}"`);
+    }
+    // hand-edited files can hold anything; keep numbers on their sliders, like recipe links do
+    const adj = ADJUSTMENTS.find((a) => a.key === key);
+    (params as any)[key] = adj ? clampAdjustment(adj, v) : v;
+  }
+
+  const rawOverlays = raw.overlays ?? [];
+  if (!Array.isArray(rawOverlays)) throw new Error(`${where}: overlays must be a list`);
+  const overlays = rawOverlays.map((o: any) => {
+    if (!o || !(o.type in OVERLAYS)) throw new Error(`${where}: unknown overlay "${o?.type}"`);
+    return { type: o.type as OverlayType, strength: unitValue(o.strength, 0.5) };
+  });
+
+  const id = typeof raw.id === "string" && raw.id.startsWith("user-") ? raw.id : `user-${index}-${Date.now().toString(36)}`;
+  if (raw.stack === undefined) return { id, name: raw.name.trim(), params, overlays };
+
+  if (!Array.isArray(raw.stack)) throw new Error(`${where}: stack must be a list`);
+  const stack = raw.stack.map((p: any) => {
+    if (!p || !(p.type in PASSES)) throw new Error(`${where}: unknown effect "${p?.type}"`);
+    const pass = createPass(p.type as PassType, unitValue(p.strength, 0.5));
+    pass.enabled = p.enabled !== false;
+    pass.opacity = unitValue(p.opacity, 1);
+    if (BLEND_MODES.some((b) => b.id === p.blend)) pass.blend = p.blend;
+    return pass;
+  });
+  return { id, name: raw.name.trim(), params, overlays: stackOverlays(stack), stack };
+}
+
+function unitValue(v: unknown, fallback: number) {
+  return typeof v === "number" && isFinite(v) ? Math.max(0, Math.min(1, v)) : fallback;
+}
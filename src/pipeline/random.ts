@@ -0,0 +1,46 @@
+/**
+ * Seedable PRNG for reproducible grain.
+ * - mulberry32: tiny, fast, good enough for noise
+ * - Named streams: each effect draws from its own seed, so changing one doesn't reshuffle another
+ * - Pixel noise: a hash of the position, so any part of the image gets the grain the whole would
+ */
+
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return function () {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return (Math.random() * 0x100000000) >>> 0;
+}
+
+/** Per-frame grain seed for animations; frame 0 keeps the recipe's seed so stills match. */
+export function frameSeed(seed: number, index: number): number {
+  return index ? (seed ^ Math.imul(index, 0x9e3779b9)) >>> 0 : seed;
+}
+
+/** Seed of the stream `name` under a recipe seed. */
+export function streamSeed(seed: number, name: string): number {
+  let h = 0x811c9dc5; // FNV-1a of the name
+  for (let i = 0; i < name.length; i++) h = Math.imul(h ^ name.charCodeAt(i), 0x01000193);
+  return (seed ^ h) >>> 0;
+}
+
+/** Noise 0..1 for channel `c` of the pixel at `x`, `y`: depends on the position alone, not on what was drawn before. */
+export function pixelNoise(seed: number, x: number, y: number, c: number): number {
+  const h = mix32((mix32((mix32(seed ^ Math.imul(c + 1, 0x9e3779b9)) + y) | 0) + x) | 0);
+  return (h >>> 0) / 4294967296;
+}
+
+// 32-bit integer finalizer (lowbias32)
+function mix32(h: number): number {
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return h ^ (h >>> 16);
+}
@@ -0,0 +1,36 @@
+import { ADJUSTMENTS } from "./adjustments";
+import { DEFAULT_FRY_PARAMS } from "./fry";
+import { randomParams, surpriseCandidates } from "./randomize";
+import { mulberry32 } from "./random";
+
+test("random looks stay inside the slider ranges and keep the grain seed", () => {
+  const random = mulberry32(42);
+  for (let i = 0; i < 20; i++) {
+    const p = randomParams({ ...DEFAULT_FRY_PARAMS, seed: 77 }, random);
+    expect(p.seed).toBe(77);
+    for (const adj of ADJUSTMENTS) {
+      expect(p[adj.key]).toBeGreaterThanOrEqual(adj.min);
+      expect(p[adj.key]).toBeLessThanOrEqual(adj.max);
+    }
+  }
+});
+
+test("locked sliders keep their values", () => {
+  const current = { ...DEFAULT_FRY_PARAMS, contrast: 123, hue: -7 };
+  const random = mulberry32(9);
+  for (let i = 0; i < 10; i++) {
+    const p = randomParams(current, random, ["contrast", "hue"]);
+    expect(p.contrast).toBe(123);
+    expect(p.hue).toBe(-7);
+  }
+});
+
+test("a surprise batch is reproducible from its seed", () => {
+  const a = surpriseCandidates(DEFAULT_FRY_PARAMS, 1234, ["burn"]);
+  const b = surpriseCandidates(DEFAULT_FRY_PARAMS, 1234, ["burn"]);
+  const c = surpriseCandidates(DEFAULT_FRY_PARAMS, 1235, ["burn"]);
+  expect(a.length).toBeGreaterThanOrEqual(6);
+  expect(b.map((x) => x.params)).toEqual(a.map((x) => x.params));
+  expect(c.map((x) => x.params)).not.toEqual(a.map((x) => x.params));
+  expect(new Set(a.map((x) => x.params.contrast)).size).toBeGreaterThan(1);
+});
@@ -0,0 +1,144 @@
+import { ADJUSTMENTS, clampAdjustment, NumericParam } from "./adjustments";
+import { analyzeFrame } from "./analysis";
+import { AnyCanvas, createCanvas, get2d } from "./canvas";
+import { FryParams } from "./fry";
+import { frameSeed, mulberry32, randomSeed } from "./random";
+import { imageDataToCanvas } from "./export";
+import { finishFrame, previewSize, renderFrame, RenderOptions } from "./render";
+import { RenderClient } from "./renderClient";
+
+/**
+ * Random looks.
+ * - Each slider lands in a sensible part of its range; the loud effects only some of the time
+ * - Locked sliders (and the grain seed) keep their current values
+ * - Seeded: a surprise batch is one seed, candidate i comes from it, so a liked look can be reproduced
+ * - Candidates render small through the same pipeline; `measureFry` scores them for "randomize until fry ≥ X"
+ * - With a render client they render in its worker, so a long search leaves the page responsive
+ */
+
+export type Look = Pick<RenderOptions, "overlays" | "stack" | "elements" | "text" | "mask">;
+
+export interface Candidate {
+  seed: number; // batch seed this came from
+  index: number;
+  params: FryParams;
+}
+
+// How many looks a surprise batch offers
+export const SURPRISE_COUNT = 9;
+
+// Where random values land, when not the whole slider: the part that still reads as a (fried) photo
+const SAMPLE_RANGES: Partial<Record<NumericParam, [number, number]>> = {
+  brightness: [90, 260],
+  contrast: [90, 220],
+  saturation: [60, 260],
+  hue: [-60, 60],
+  exposureEV: [-0.5, 1.2],
+  burn: [0, 90],
+  noise: [0, 0.3],
+  posterize: [3, 8],
+  crunch: [1, 10],
+  crunchQuality: [0.1, 0.5],
+  sharpenAmount: [0.3, 3],
+  sharpenRadius: [1, 4],
+  sharpenThreshold: [0, 16],
+  edgeEnhance: [0.1, 0.6],
+  emboss: [0.1, 0.5],
+  blockSize: [4, 16],
+  blockiness: [0.1, 0.6],
+  chromaShift: [1, 6],
+  chromaLens: [1, 10],
+  scanlineSpacing: [2, 6],
+  vhsJitter: [0.1, 0.5],
+  chromaBleed: [0.1, 0.7],
+  tapeNoise: [0.05, 0.4],
+};
+
+// Effects that swamp everything else: off about half the time
+const SOMETIMES: NumericParam[] = [
+  "posterize",
+  "crunch",
+  "sharpenAmount",
+  "edgeEnhance",
+  "emboss",
+  "blockiness",
+  "chromaShift",
+  "chromaLens",
+  "vhsJitter",
+  "chromaBleed",
+  "tapeNoise",
+];
+
+// Long edge of the renders `measureFry` scores and candidates show
+const THUMB_EDGE = 320;
+
+export function randomParams(current: FryParams, random: () => number, locked: NumericParam[] = []): FryParams {
+  const out = { ...current };
+  for (const adj of ADJUSTMENTS) {
+    if (locked.includes(adj.key)) continue;
+    const [lo, hi] = SAMPLE_RANGES[adj.key] ?? [adj.min, adj.max];
+    const off = SOMETIMES.includes(adj.key) && random() < 0.5;
+    out[adj.key] = off ? adj.min : clampAdjustment(adj, lo + random() * (hi - lo));
+  }
+  if (!locked.includes("noise")) out.noiseMode = random() < 0.5 ? "mono" : "color";
+  return out;
+}
+
+/** The candidates of a surprise batch; the same seed, locks and locked values give the same looks. */
+export function surpriseCandidates(current: FryParams, seed: number, locked: NumericParam[], count = SURPRISE_COUNT): Candidate[] {
+  return Array.from({ length: count }, (_, index) => ({
+    seed,
+    index,
+    params: randomParams(current, mulberry32(frameSeed(seed, index)), locked),
+  }));
+}
+
+/** `params` over `source` at thumbnail size, through the whole pipeline (in `client`'s worker when there is one). */
+export async function renderThumbnail(
+  source: ImageBitmap,
+  params: FryParams,
+  look: Look,
+  client: RenderClient | null = null
+): Promise<AnyCanvas> {
+  const scale = Math.min(1, THUMB_EDGE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const options: RenderOptions = {
+    ...look,
+    width,
+    height,
+    heavy: true,
+    exactColor: true,
+    overlayScale: width / previewSize(source.width, source.height).width,
+  };
+  if (client) return imageDataToCanvas(await client.exportImage({ params, options }, source));
+  const canvas = createCanvas(width, height);
+  renderFrame(get2d(canvas, true), source, params, options);
+  return finishFrame(canvas, params, options, source);
+}
+
+/** Fry level (0..100) of a rendered canvas. */
+export function measureFry(canvas: AnyCanvas): number {
+  return analyzeFrame(get2d(canvas, true).getImageData(0, 0, canvas.width, canvas.height)).fry.score;
+}
+
+/** Random looks until one reaches `target`; when the tries run out, the friedest one so far. */
+export async function randomizeUntilFry(
+  source: ImageBitmap,
+  current: FryParams,
+  look: Look,
+  target: number,
+  locked: NumericParam[] = [],
+  client: RenderClient | null = null,
+  tries = 40
+): Promise<{ params: FryParams; score: number }> {
+  const random = mulberry32(randomSeed());
+  let best = { params: current, score: -1 };
+  for (let i = 0; i < tries && best.score < target; i++) {
+    const params = randomParams(current, random, locked);
+    const score = measureFry(await renderThumbnail(source, params, look, client));
+    if (score > best.score) best = { params, score };
+    await new Promise((r) => setTimeout(r, 0)); // let the page paint between tries (inline renders hold it up)
+  }
+  return best;
+}
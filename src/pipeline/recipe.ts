@@ -0,0 +1,41 @@
+import { DEFAULT_FRY_PARAMS, FryParams } from "./fry";
+import { DEFAULT_MEME_TEXT, MemeText } from "./captions";
+import { PlacedElement } from "./elements";
+import { DEFAULT_MASK, FryMask } from "./mask";
+import { OverlaySpec } from "./overlays";
+import { StackPass } from "./stack";
+import { IDENTITY_TRANSFORM, ImageTransform } from "./transform";
+
+/**
+ * Recipe — everything the user adjusts, as one value.
+ * - What history snapshots, links encode and batch/export jobs replay
+ * - The look (params, stack, overlays, captions) outlives a picture; crop, mask and placed layers don't
+ */
+
+export interface Recipe {
+  params: FryParams;
+  presetId: string; // last applied preset ("none" = defaults)
+  overlays: OverlaySpec[]; // kept in step with the stack's overlay passes
+  stack: StackPass[] | null; // effect order, blend and opacity (null = classic order)
+  elements: PlacedElement[]; // flares, stickers, warps placed on this image
+  text: MemeText;
+  transform: ImageTransform; // crop, rotation and flips of this image
+  mask: FryMask; // where the fry applies
+}
+
+export const DEFAULT_RECIPE: Recipe = {
+  params: DEFAULT_FRY_PARAMS,
+  presetId: "none",
+  overlays: [],
+  stack: null,
+  elements: [],
+  text: DEFAULT_MEME_TEXT,
+  transform: IDENTITY_TRANSFORM,
+  mask: DEFAULT_MASK,
+};
+
+/** What's left of `r` for a freshly opened picture: placed elements and free text boxes go with the old one. */
+export function recipeForNewImage(r: Recipe): Recipe {
+  if (!r.elements.length && !r.text.boxes.length && r.transform === IDENTITY_TRANSFORM && r.mask === DEFAULT_MASK) return r;
+  return { ...r, elements: [], text: { ...r.text, boxes: [] }, transform: IDENTITY_TRANSFORM, mask: DEFAULT_MASK };
+}
@@ -0,0 +1,54 @@
+import { DEFAULT_FRY_PARAMS } from "./fry";
+import { BUILTIN_PRESETS } from "./presets";
+import { DEFAULT_RECIPE, Recipe } from "./recipe";
+import { decodeRecipe, encodeRecipe } from "./recipeLink";
+import { createPass, defaultStack, updatePass } from "./stack";
+
+const ultra: Recipe = {
+  params: { ...DEFAULT_FRY_PARAMS, brightness: 310, hue: -45, exposureEV: 1.3, noise: 0.27, noiseMode: "color", seed: 3735928559, crunch: 4 },
+  presetId: "ultra",
+  overlays: [
+    { type: "vignette", strength: 0.85 },
+    { type: "scanlines", strength: 0.25 },
+  ],
+  stack: null,
+  elements: [],
+  text: DEFAULT_RECIPE.text,
+  transform: DEFAULT_RECIPE.transform,
+  mask: DEFAULT_RECIPE.mask,
+};
+
+test("recipes survive a round trip through the hash", () => {
+  const hash = `#${encodeRecipe(ultra)}`;
+  expect(decodeRecipe(hash, DEFAULT_RECIPE, BUILTIN_PRESETS)).toEqual(ultra);
+});
+
+test("out-of-range values are clamped to the slider ranges", () => {
+  const r = decodeRecipe("#v=1&b=9000&h=-999&e=0.1234&p=abc", DEFAULT_RECIPE, BUILTIN_PRESETS)!;
+  expect(r.params.brightness).toBe(400);
+  expect(r.params.hue).toBe(-180);
+  expect(r.params.exposureEV).toBe(0.1);
+  expect(r.params.posterize).toBe(DEFAULT_FRY_PARAMS.posterize);
+});
+
+test("unknown presets fall back to none and built-in overlays fill in", () => {
+  expect(decodeRecipe("#v=1&preset=user-gone", DEFAULT_RECIPE, BUILTIN_PRESETS)!.presetId).toBe("none");
+  const vhs = decodeRecipe("#v=1&preset=vhs", DEFAULT_RECIPE, BUILTIN_PRESETS)!;
+  expect(vhs.overlays.map((o) => o.type)).toEqual(["scanlines"]);
+});
+
+test("non-recipe hashes and newer versions are ignored", () => {
+  expect(decodeRecipe("", DEFAULT_RECIPE, BUILTIN_PRESETS)).toBeNull();
+  expect(decodeRecipe("#section-2", DEFAULT_RECIPE, BUILTIN_PRESETS)).toBeNull();
+  expect(decodeRecipe("#v=99&b=100", DEFAULT_RECIPE, BUILTIN_PRESETS)).toBeNull();
+});
+
+test("a custom effect stack survives the link, overlays included", () => {
+  let stack = [createPass("noise"), ...defaultStack(ultra.overlays)];
+  stack = updatePass(stack, stack[0].id, { opacity: 0.4, blend: "screen" });
+  stack = updatePass(stack, stack[3].id, { enabled: false });
+  const back = decodeRecipe(`#${encodeRecipe({ ...ultra, stack })}`, DEFAULT_RECIPE, BUILTIN_PRESETS)!;
+  const strip = ({ id: _id, ...p }: { id: string }) => p;
+  expect(back.stack!.map(strip)).toEqual(stack.map(strip));
+  expect(back.overlays).toEqual(ultra.overlays);
+});
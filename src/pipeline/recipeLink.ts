@@ -0,0 +1,130 @@
+import { ADJUSTMENTS, clampAdjustment, NumericParam } from "./adjustments";
+import { OVERLAYS, OverlaySpec, OverlayType } from "./overlays";
+import { Preset } from "./presets";
+import { Recipe } from "./recipe";
+import { BlendMode, createPass, PASSES, PassType, StackPass, stackOverlays } from "./stack";
+
+/**
+ * Recipe ⇄ URL hash, e.g. `#v=1&b=200&c=200&…&seed=k3x9&preset=ultra&o=vignette-85.scanlines-25`
+ * - Short positional-free keys, so new params can be added without breaking old links
+ * - Every value is validated and clamped to its slider range on the way in
+ * - A custom effect stack rides along as `fx=color-100-n.noise-50-s._bloom-100-n.vignette-100-m-85`
+ *   (type-opacity-blend[-strength], `_` = switched off); the overlay list stays for the classic order
+ * - Placed elements, meme text, crop/rotation and the mask belong to one image, so they stay out of links
+ */
+
+export const RECIPE_LINK_VERSION = 1;
+
+const BLEND_KEYS: Record<BlendMode, string> = { normal: "n", screen: "s", multiply: "m", overlay: "o" };
+
+const KEYS: Record<NumericParam, string> = {
+  brightness: "b",
+  contrast: "c",
+  saturation: "s",
+  hue: "h",
+  exposureEV: "e",
+  burn: "u",
+  noise: "n",
+  posterize: "p",
+  crunch: "k",
+  crunchQuality: "q",
+  sharpenAmount: "sa",
+  sharpenRadius: "sr",
+  sharpenThreshold: "st",
+  edgeEnhance: "ee",
+  emboss: "em",
+  blockSize: "bs",
+  blockiness: "bk",
+  chromaShift: "cs",
+  chromaAngle: "ca",
+  chromaLens: "cl",
+  scanlineSpacing: "sl",
+  vhsJitter: "vj",
+  chromaBleed: "vb",
+  tapeNoise: "vn",
+  seed: "seed",
+};
+
+export function encodeRecipe(recipe: Recipe): string {
+  const q = new URLSearchParams();
+  q.set("v", String(RECIPE_LINK_VERSION));
+  for (const adj of ADJUSTMENTS) q.set(KEYS[adj.key], String(recipe.params[adj.key]));
+  q.set("m", recipe.params.noiseMode === "color" ? "c" : "m");
+  q.set("seed", (recipe.params.seed >>> 0).toString(36));
+  q.set("preset", recipe.presetId);
+  if (recipe.overlays.length) {
+    q.set("o", recipe.overlays.map((o) => `${o.type}-${Math.round(o.strength * 100)}`).join("."));
+  }
+  if (recipe.stack) q.set("fx", recipe.stack.map(encodePass).join("."));
+  return q.toString();
+}
+
+function encodePass(p: StackPass) {
+  const parts = [`${p.enabled ? "" : "_"}${p.type}`, String(Math.round(p.opacity * 100)), BLEND_KEYS[p.blend]];
+  if (p.strength !== undefined) parts.push(String(Math.round(p.strength * 100)));
+  return parts.join("-");
+}
+
+/**
+ * Reads a recipe from a location hash, filling gaps from `base`.
+ * Returns null when the hash isn't a recipe link (or is from a newer version).
+ */
+export function decodeRecipe(hash: string, base: Recipe, presets: Preset[]): Recipe | null {
+  const q = new URLSearchParams(hash.replace(/^#/, ""));
+  const version = Number(q.get("v"));
+  if (!version || version > RECIPE_LINK_VERSION) return null;
+
+  const params = { ...base.params };
+  for (const adj of ADJUSTMENTS) {
+    const raw = q.get(KEYS[adj.key]);
+    const v = raw === null || raw === "" ? NaN : Number(raw);
+    if (isFinite(v)) params[adj.key] = clampAdjustment(adj, v);
+  }
+  const mode = q.get("m");
+  if (mode === "c" || mode === "m") params.noiseMode = mode === "c" ? "color" : "mono";
+  const seed = parseInt(q.get("seed") ?? "", 36);
+  if (isFinite(seed)) params.seed = seed >>> 0;
+
+  const presetId = q.get("preset") ?? "";
+  const preset = presets.find((p) => p.id === presetId);
+  let overlays = q.has("o") ? parseOverlays(q.get("o")!) : preset ? preset.overlays.map((o) => ({ ...o })) : [];
+  let stack = !q.has("o") && preset?.stack ? preset.stack.map((p) => ({ ...p })) : null;
+  if (q.has("fx")) {
+    stack = parseStack(q.get("fx")!);
+    overlays = stackOverlays(stack);
+  }
+
+  return { ...base, params, presetId: preset ? preset.id : "none", overlays, stack };
+}
+
+function parseStack(text: string): StackPass[] {
+  const out: StackPass[] = [];
+  for (const part of text.split(".")) {
+    const [name, opacity, blend, strength] = part.split("-");
+    const type = name.replace(/^_/, "");
+    if (!(type in PASSES)) continue;
+    const pass = createPass(type as PassType, unitPercent(strength, 0.5));
+    pass.enabled = !name.startsWith("_");
+    pass.opacity = unitPercent(opacity, 1);
+    pass.blend = (Object.keys(BLEND_KEYS) as BlendMode[]).find((b) => BLEND_KEYS[b] === blend) ?? "normal";
+    out.push(pass);
+  }
+  return out;
+}
+
+function unitPercent(text: string | undefined, fallback: number) {
+  const v = text ? Number(text) / 100 : NaN;
+  return isFinite(v) ? Math.max(0, Math.min(1, v)) : fallback;
+}
+
+function parseOverlays(text: string): OverlaySpec[] {
+  const out: OverlaySpec[] = [];
+  for (const part of text.split(".")) {
+    const [type, pct] = part.split("-");
+    const strength = Number(pct) / 100;
+    if (type in OVERLAYS && isFinite(strength)) {
+      out.push({ type: type as OverlayType, strength: Math.max(0, Math.min(1, strength)) });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,149 @@
+import { AnyCanvas, Canvas2D, createCanvas, drawFramed, Frame, get2d, supportsCanvasFilter } from "./canvas";
+import { crunchJpeg } from "./crunch";
+import { cssFilterFor, FryParams } from "./fry";
+import { drawMemeText, hasText, MemeText } from "./captions";
+import { composeElements, PlacedElement, warpReach } from "./elements";
+import { applyMask, FryMask, hasMask } from "./mask";
+import { OverlaySpec } from "./overlays";
+import { defaultStack, runStack, StackPass, stackReach } from "./stack";
+
+/**
+ * Canvas orchestration around the pure fry pipeline.
+ * - The fry runs as an effect stack (see stack.ts); without one, the classic order
+ * - GPU CSS filter for the color pass when it leads the stack and the browser honors it
+ * - Exact mode (and browsers without `ctx.filter`) do the color pass in JS instead;
+ *   exports always do, so files match across browsers
+ * - Optional lower-res working buffer while scrubbing
+ * - Placed elements (flares, stickers, warps) composited before the color pass
+ * - Overlays are stack passes too, drawn on the working buffer
+ * - Async finishing passes (JPEG crunch) via `finishFrame`
+ * - Meme text: before the color pass when fried, otherwise last, after crunch
+ * - Optional region: render only a window of the frame (zoomed preview), same pixels as that part of the whole —
+ *   the working buffer takes a margin around it for the warps and passes that look at neighbours
+ * - Optional mask: the finished fry shows only where masked, the unfried picture elsewhere
+ */
+
+// Longest edge of the on-screen preview
+export const PREVIEW_MAX = 1600;
+
+export interface RenderOptions {
+  overlays: OverlaySpec[]; // drawn in order after the pixel passes (when there is no stack)
+  stack?: StackPass[] | null; // pass order, blend and opacity; overrides `overlays`
+  elements?: PlacedElement[]; // composited into the source first
+  text?: MemeText; // captions, fried or drawn clean on top
+  width: number; // output size
+  height: number;
+  previewScale?: number; // working buffer scale, 1 = full res
+  heavy?: boolean; // posterize, noise, bloom, spatial passes
+  overlayScale?: number; // output px per preview px (> 1 for big exports)
+  exactColor?: boolean; // JS color pass instead of the CSS filter
+  region?: Frame; // part of the width × height frame to render; the canvas gets its size
+  mask?: FryMask; // limit the fry to this area
+}
+
+export function previewSize(srcW: number, srcH: number) {
+  const scale = Math.min(1, PREVIEW_MAX / Math.max(srcW, srcH));
+  return { width: Math.round(srcW * scale), height: Math.round(srcH * scale) };
+}
+
+export function renderFrame(ctx: Canvas2D, source: CanvasImageSource, params: FryParams, options: RenderOptions) {
+  const { overlays, elements = [], text, width: CW, height: CH, previewScale = 1, heavy = true, overlayScale = 1, exactColor = false } =
+    options;
+  const rg = options.region ?? { x: 0, y: 0, width: CW, height: CH };
+  const canvas = ctx.canvas as AnyCanvas;
+  canvas.width = rg.width;
+  canvas.height = rg.height;
+
+  const passes = (options.stack ?? defaultStack(overlays)).filter((p) => p.enabled);
+  const unit = overlayScale * previewScale;
+  // warps move pixels before the passes run, so their reach adds to the stack's
+  const margin = options.region
+    ? Math.ceil(stackReach(passes, params, { heavy, unit }) / previewScale) + warpReach(elements, CW, CH)
+    : 0;
+  const pr = padRegion(rg, margin, CW, CH);
+
+  const W = Math.max(1, Math.floor(pr.width * previewScale));
+  const H = Math.max(1, Math.floor(pr.height * previewScale));
+
+  const work = createCanvas(W, H);
+  const wctx = get2d(work, true);
+
+  // where the whole frame lands on the working buffer
+  const kx = W / pr.width;
+  const ky = H / pr.height;
+  const frame = { x: -pr.x * kx, y: -pr.y * ky, width: CW * kx, height: CH * ky };
+
+  // 0) Placed elements (and fried text) ride along with the source so they get fried too
+  const friedText = text?.fried && hasText(text);
+  let scene: AnyCanvas | null = null;
+  if (elements.length || friedText) {
+    scene = composeElements(source, elements, W, H, frame);
+    if (friedText) {
+      const sctx = get2d(scene);
+      sctx.translate(frame.x, frame.y);
+      drawMemeText(sctx, text!, frame.width, frame.height);
+    }
+  }
+
+  // 1) Color pass as a CSS filter (cheap on GPU) when it leads the stack unblended — brightness capped, rest is pixel gain
+  const lead = passes[0];
+  const cssColor = !exactColor && supportsCanvasFilter() && lead?.type === "color" && lead.opacity >= 1 && lead.blend === "normal";
+  if (cssColor) {
+    wctx.filter = cssFilterFor(params);
+    passes.shift();
+  }
+  wctx.imageSmoothingEnabled = true;
+  if (scene) wctx.drawImage(scene, 0, 0, W, H);
+  else drawFramed(wctx, source, frame, W, H);
+  wctx.filter = "none";
+
+  // 2) The rest of the stack on the working buffer, overlays laid out on the whole frame
+  runStack(wctx, passes, params, { heavy, unit, frame });
+
+  // 3) Blit working buffer (without its margin) to output canvas
+  ctx.imageSmoothingEnabled = true;
+  ctx.clearRect(0, 0, rg.width, rg.height);
+  ctx.drawImage(work, (rg.x - pr.x) * kx, (rg.y - pr.y) * ky, rg.width * kx, rg.height * ky, 0, 0, rg.width, rg.height);
+}
+
+/** `region` grown by `margin` on every side, kept inside the width × height frame. */
+export function padRegion(region: Frame, margin: number, width: number, height: number): Frame {
+  const x = Math.max(0, region.x - margin);
+  const y = Math.max(0, region.y - margin);
+  return {
+    x,
+    y,
+    width: Math.min(width, region.x + region.width + margin) - x,
+    height: Math.min(height, region.y + region.height + margin) - y,
+  };
+}
+
+/**
+ * Passes that need the browser encoder and so can't run inside `renderFrame`,
+ * the mask (so crunch stays inside it too), then clean (unfried) text on top of everything.
+ * `source` is the same image `renderFrame` got; without it the mask is skipped.
+ * Returns the canvas to show — `canvas` itself when there is no crunch.
+ */
+export async function finishFrame(
+  canvas: AnyCanvas,
+  params: FryParams,
+  options: RenderOptions,
+  source?: CanvasImageSource
+): Promise<AnyCanvas> {
+  // the unfried picture, placed elements included — taken before awaiting, while `source` is still open
+  const rg = options.region ?? { x: 0, y: 0, width: options.width, height: options.height };
+  const frame = { x: -rg.x, y: -rg.y, width: options.width, height: options.height };
+  const mask = source && hasMask(options.mask) ? options.mask : null;
+  const original = mask && composeElements(source!, options.elements ?? [], canvas.width, canvas.height, frame);
+
+  const out = options.heavy === false || params.crunch <= 0 ? canvas : await crunchJpeg(canvas, params.crunch, params.crunchQuality);
+  if (mask && original) applyMask(get2d(out), original, mask, frame);
+  if (options.text && !options.text.fried && hasText(options.text)) {
+    const ctx = get2d(out);
+    ctx.save();
+    if (options.region) ctx.translate(-options.region.x, -options.region.y);
+    drawMemeText(ctx, options.text, options.width, options.height);
+    ctx.restore();
+  }
+  return out;
+}
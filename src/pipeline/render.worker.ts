@@ -0,0 +1,99 @@
+import { createCanvas, get2d } from "./canvas";
+import { finishFrame, renderFrame } from "./render";
+import { WorkerRequest, WorkerResponse } from "./renderProtocol";
+
+/**
+ * Render worker — runs `renderFrame` on an OffscreenCanvas.
+ * - Keeps the current source bitmap between jobs
+ * - Only the newest queued job runs; older ones are dropped unrendered
+ * - Every render request gets a reply (frame, dropped or error), so the client's one-in-flight slot always frees
+ * - Export jobs always run, in order, on the bitmap they brought or else the shared source
+ * - Jobs run one at a time (finishing passes are async)
+ * - Frames go back as ImageData with a transferred buffer
+ */
+
+const scope = globalThis as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(msg: WorkerResponse, transfer?: Transferable[]): void;
+};
+
+type JobRequest = Extract<WorkerRequest, { type: "render" | "export" }>;
+type ExportRequest = Extract<WorkerRequest, { type: "export" }>;
+
+let source: { id: number; bitmap: ImageBitmap } | null = null;
+let pending: JobRequest | null = null;
+let scheduled = false;
+let queue: Promise<void> = Promise.resolve();
+
+function enqueue(task: () => Promise<void>) {
+  queue = queue.then(task);
+}
+
+scope.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === "source") {
+    source?.bitmap.close();
+    source = { id: msg.sourceId, bitmap: msg.bitmap };
+    return;
+  }
+  if (msg.type === "export") {
+    enqueue(() => runExport(msg));
+    return;
+  }
+  // latest wins: anything still waiting is superseded
+  if (pending) drop(pending);
+  pending = msg;
+  if (!scheduled) {
+    scheduled = true;
+    // let the rest of the message queue drain before picking a job
+    setTimeout(() => enqueue(runPending), 0);
+  }
+};
+
+async function runPending() {
+  scheduled = false;
+  const req = pending;
+  pending = null;
+  if (!req) return;
+  if (!source || source.id !== req.sourceId) {
+    drop(req);
+    return;
+  }
+
+  try {
+    const image = await render(req, source.bitmap);
+    scope.postMessage({ type: "frame", id: req.id, sourceId: req.sourceId, image }, [image.data.buffer]);
+  } catch (err) {
+    postError(req, err);
+  }
+}
+
+async function runExport(req: ExportRequest) {
+  try {
+    if (!req.bitmap && (!source || source.id !== req.sourceId)) throw new Error("Image changed before export");
+    const image = await render(req, req.bitmap ?? source!.bitmap);
+    scope.postMessage({ type: "exported", id: req.id, image }, [image.data.buffer]);
+  } catch (err) {
+    postError(req, err);
+  } finally {
+    req.bitmap?.close();
+  }
+}
+
+async function render(req: JobRequest, bitmap: ImageBitmap): Promise<ImageData> {
+  const { width, height } = req.job.options;
+  const out = createCanvas(width, height);
+  renderFrame(get2d(out, true), bitmap, req.job.params, req.job.options);
+  const final = await finishFrame(out, req.job.params, req.job.options, bitmap);
+  return get2d(final, true).getImageData(0, 0, final.width, final.height); // region-sized when zoomed
+}
+
+function drop(req: JobRequest) {
+  scope.postMessage({ type: "dropped", id: req.id });
+}
+
+function postError(req: JobRequest, err: unknown) {
+  scope.postMessage({ type: "error", id: req.id, message: err instanceof Error ? err.message : String(err) });
+}
+
+export {};
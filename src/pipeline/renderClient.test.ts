@@ -0,0 +1,32 @@
+import { createRenderClient } from "./renderClient";
+import { RenderJob, WorkerRequest } from "./renderProtocol";
+
+// a worker that only records what it was sent
+const mockWorker = { posted: [] as WorkerRequest[] } as any;
+mockWorker.postMessage = (msg: WorkerRequest) => mockWorker.posted.push(msg);
+mockWorker.terminate = () => {};
+jest.mock("./spawnRenderWorker", () => ({ spawnRenderWorker: () => mockWorker }));
+
+const job = { params: {}, options: { overlays: [], width: 4, height: 4 } } as unknown as RenderJob;
+const bitmap = {} as ImageBitmap;
+const renders = () => mockWorker.posted.filter((m: WorkerRequest) => m.type === "render");
+
+test("a new source while a render is in flight doesn't hold up the next render", () => {
+  const onFrame = jest.fn();
+  const client = createRenderClient({ onFrame, onError() {} })!;
+  client.setSource(bitmap);
+  client.render(job);
+  expect(renders()).toHaveLength(1);
+
+  // the worker sees the new source first and never renders the old job
+  client.setSource(bitmap);
+  client.render(job);
+  expect(renders()).toHaveLength(2);
+
+  // the old job's late reply is ignored
+  const [first] = renders();
+  mockWorker.onmessage({ data: { type: "dropped", id: first.id } });
+  mockWorker.onmessage({ data: { type: "frame", id: first.id, sourceId: 1, image: {} } });
+  expect(onFrame).not.toHaveBeenCalled();
+  client.dispose();
+});
@@ -0,0 +1,110 @@
+import { RenderJob, WorkerRequest, WorkerResponse } from "./renderProtocol";
+import { spawnRenderWorker } from "./spawnRenderWorker";
+
+/**
+ * Main-thread side of the render worker.
+ * - One job in flight at a time; a newer request replaces the waiting one
+ * - `cancel` drops both the waiting job and the in-flight result
+ * - A new source frees the in-flight slot at once; the old job's late reply is ignored by id
+ * - `exportImage` is a separate one-shot job that is never dropped; given a bitmap it renders that,
+ *   so a source change (animation playback) can't pull the picture out from under it
+ * - Returns null when workers/OffscreenCanvas are unavailable (caller renders inline)
+ */
+
+export interface RenderClient {
+  setSource(bitmap: ImageBitmap): void;
+  render(job: RenderJob): void;
+  exportImage(job: RenderJob, bitmap?: ImageBitmap): Promise<ImageData>;
+  cancel(): void;
+  dispose(): void;
+}
+
+export interface RenderClientHandlers {
+  onFrame(image: ImageData, job: RenderJob): void;
+  onError(message: string): void;
+}
+
+export function createRenderClient(handlers: RenderClientHandlers): RenderClient | null {
+  const worker = spawnRenderWorker();
+  if (!worker) return null;
+
+  let sourceId = 0;
+  let nextId = 1;
+  let inFlight: { id: number; job: RenderJob } | null = null;
+  let waiting: RenderJob | null = null;
+  let dropId = 0; // results with id <= dropId are ignored
+  const exports = new Map<number, { resolve(image: ImageData): void; reject(err: Error): void }>();
+
+  function post(msg: WorkerRequest) {
+    worker!.postMessage(msg);
+  }
+
+  function cancel() {
+    waiting = null;
+    if (inFlight) dropId = inFlight.id;
+  }
+
+  function rejectExports(message: string) {
+    exports.forEach((exp) => exp.reject(new Error(message)));
+    exports.clear();
+  }
+
+  function pump() {
+    if (inFlight || !waiting || !sourceId) return;
+    inFlight = { id: nextId++, job: waiting };
+    waiting = null;
+    post({ type: "render", id: inFlight.id, sourceId, job: inFlight.job });
+  }
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    const exp = exports.get(msg.id);
+    if (exp) {
+      exports.delete(msg.id);
+      if (msg.type === "exported") exp.resolve(msg.image);
+      else exp.reject(new Error(msg.type === "error" ? msg.message : "Unexpected reply"));
+      return;
+    }
+    const done = inFlight;
+    if (done && done.id === msg.id) inFlight = null;
+    if (msg.type === "error") {
+      handlers.onError(msg.message);
+    } else if (msg.type === "frame" && done && msg.id === done.id && msg.id > dropId && msg.sourceId === sourceId) {
+      handlers.onFrame(msg.image, done.job);
+    }
+    pump();
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    inFlight = null;
+    waiting = null;
+    rejectExports(e.message || "Render worker failed");
+    handlers.onError(e.message || "Render worker failed");
+  };
+
+  return {
+    setSource(bitmap) {
+      cancel();
+      inFlight = null; // its result is for the old source, whatever comes back
+      sourceId++;
+      // ImageBitmap is cloned, not transferred: the main thread keeps its copy for fallback/export
+      post({ type: "source", sourceId, bitmap });
+    },
+    render(job) {
+      waiting = job;
+      pump();
+    },
+    exportImage(job, bitmap) {
+      const id = nextId++;
+      post({ type: "export", id, sourceId, job, bitmap });
+      return new Promise((resolve, reject) => exports.set(id, { resolve, reject }));
+    },
+    cancel,
+    dispose() {
+      worker.terminate();
+      rejectExports("Render worker stopped");
+      inFlight = null;
+      waiting = null;
+    },
+  };
+}
@@ -0,0 +1,22 @@
+import { FryParams } from "./fry";
+import { RenderOptions } from "./render";
+
+/**
+ * Messages between the main thread and the render worker.
+ */
+
+export interface RenderJob {
+  params: FryParams;
+  options: RenderOptions;
+}
+
+export type WorkerRequest =
+  | { type: "source"; sourceId: number; bitmap: ImageBitmap }
+  | { type: "render"; id: number; sourceId: number; job: RenderJob }
+  | { type: "export"; id: number; sourceId: number; job: RenderJob; bitmap?: ImageBitmap }; // own bitmap, else the shared source
+
+export type WorkerResponse =
+  | { type: "frame"; id: number; sourceId: number; image: ImageData }
+  | { type: "exported"; id: number; image: ImageData }
+  | { type: "dropped"; id: number } // a render superseded before it ran
+  | { type: "error"; id: number; message: string };
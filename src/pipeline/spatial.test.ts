@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { applyBlockiness, applyKernel3x3, applyUnsharpMask, blurRGB, EMBOSS_KERNEL } from "./spatial";
+
+function flat(width: number, height: number, v: number) {
+  const data = new Uint8ClampedArray(width * height * 4).fill(v);
+  return { data, width, height };
+}
+
+// left half dark, right half light
+function edge(width: number, height: number) {
+  const img = flat(width, height, 255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width / 2; x++) img.data.fill(60, (y * width + x) * 4, (y * width + x) * 4 + 3);
+  }
+  return img;
+}
+
+test("blur keeps flat areas flat", () => {
+  const blur = blurRGB(flat(9, 7, 100), 3);
+  expect(Array.from(blur).every((v) => Math.abs(v - 100) < 1e-3)).toBe(true);
+});
+
+test("unsharp mask overshoots on both sides of an edge", () => {
+  const img = applyUnsharpMask(edge(16, 4), 2, 1.5, 0);
+  const row = Array.from({ length: 16 }, (_, x) => img.data[x * 4]);
+  expect(Math.min(...row)).toBeLessThan(60); // dark halo
+  expect(row[15]).toBe(255);
+  expect(row[7]).toBeLessThan(60);
+  expect(row[2]).toBe(60); // far from the edge: unchanged
+});
+
+test("threshold protects low-contrast detail", () => {
+  const img = flat(8, 8, 100);
+  img.data[(4 * 8 + 4) * 4] = 110;
+  const before = Array.from(img.data);
+  applyUnsharpMask(img, 3, 1, 20);
+  expect(Array.from(img.data)).toEqual(before);
+});
+
+test("3×3 kernels summing to 1 leave flat areas and alpha alone", () => {
+  const img = flat(5, 5, 90);
+  applyKernel3x3(img, EMBOSS_KERNEL, 1);
+  expect(Array.from(img.data).every((v) => v === 90)).toBe(true);
+});
+
+test("blockiness turns a smooth ramp into steps at block boundaries", () => {
+  const W = 16;
+  const img = flat(W, 8, 0);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < W; x++) img.data.fill(x * 12, (y * W + x) * 4, (y * W + x) * 4 + 3);
+  }
+  applyBlockiness(img, 8, 1);
+  // the ramp rises 12 per pixel; the jump between blocks is now bigger than that
+  const at = (x: number) => img.data[(3 * W + x) * 4];
+  expect(at(8) - at(7)).toBeGreaterThan(12);
+});
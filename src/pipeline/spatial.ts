@@ -0,0 +1,173 @@
+import { Frame } from "./canvas";
+import { PixelBuffer } from "./fry";
+
+/**
+ * Spatial (neighborhood) passes — pure, DOM-free, in place.
+ * - Unsharp mask on a 3× box blur (≈ Gaussian, O(1) per pixel at any radius)
+ * - 3×3 convolutions for edge enhance and emboss
+ * - Blockiness: real block DCT with high frequencies dropped and the rest quantized
+ * - Alpha is left alone everywhere
+ */
+
+/** RGB of `img` blurred by ≈ a Gaussian of `sigma` px, as floats (3 per pixel). */
+export function blurRGB(img: PixelBuffer, sigma: number): Float32Array {
+  const { width: W, height: H, data: d } = img;
+  const a = new Float32Array(W * H * 3);
+  for (let i = 0, p = 0; i < d.length; i += 4, p += 3) {
+    a[p] = d[i];
+    a[p + 1] = d[i + 1];
+    a[p + 2] = d[i + 2];
+  }
+  // three box passes of this radius have about the requested variance
+  const r = Math.max(1, Math.round((Math.sqrt(4 * sigma * sigma + 1) - 1) / 2));
+  const b = new Float32Array(a.length);
+  for (let pass = 0; pass < 3; pass++) {
+    boxBlur1D(a, b, W, H, r, true);
+    boxBlur1D(b, a, W, H, r, false);
+  }
+  return a;
+}
+
+function boxBlur1D(src: Float32Array, dst: Float32Array, W: number, H: number, r: number, horizontal: boolean) {
+  const len = horizontal ? W : H;
+  const lines = horizontal ? H : W;
+  const step = horizontal ? 3 : W * 3;
+  const norm = 1 / (2 * r + 1);
+  for (let line = 0; line < lines; line++) {
+    const base = horizontal ? line * W * 3 : line * 3;
+    for (let c = 0; c < 3; c++) {
+      const at = (k: number) => src[base + Math.min(len - 1, Math.max(0, k)) * step + c];
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += at(k);
+      for (let k = 0; k < len; k++) {
+        dst[base + k * step + c] = sum * norm;
+        sum += at(k + r + 1) - at(k - r);
+      }
+    }
+  }
+}
+
+/**
+ * Classic unsharp mask: out = in + amount·(in − blur), only where |in − blur| ≥ threshold.
+ * Big amounts give the crunchy halos deep-fried images are known for.
+ */
+export function applyUnsharpMask(img: PixelBuffer, amount: number, radius: number, threshold: number): PixelBuffer {
+  if (amount <= 0 || radius <= 0) return img;
+  const blur = blurRGB(img, radius);
+  const d = img.data;
+  for (let i = 0, p = 0; i < d.length; i += 4, p += 3) {
+    for (let c = 0; c < 3; c++) {
+      const diff = d[i + c] - blur[p + c];
+      if (Math.abs(diff) >= threshold) d[i + c] = d[i + c] + amount * diff;
+    }
+  }
+  return img;
+}
+
+// Laplacian sharpen and a top-left light emboss; both sum to 1 so flat areas keep their color
+export const EDGE_KERNEL = [0, -1, 0, -1, 5, -1, 0, -1, 0];
+export const EMBOSS_KERNEL = [-2, -1, 0, -1, 1, 1, 0, 1, 2];
+
+/** 3×3 convolution mixed over the original by `mix` (0..1). Edges clamp. */
+export function applyKernel3x3(img: PixelBuffer, kernel: number[], mix: number): PixelBuffer {
+  if (mix <= 0) return img;
+  const { width: W, height: H, data: d } = img;
+  const src = d.slice();
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const o = (y * W + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let acc = 0;
+        for (let ky = -1; ky <= 1; ky++) {
+          const row = Math.min(H - 1, Math.max(0, y + ky)) * W;
+          for (let kx = -1; kx <= 1; kx++) {
+            acc += kernel[(ky + 1) * 3 + kx + 1] * src[(row + Math.min(W - 1, Math.max(0, x + kx))) * 4 + c];
+          }
+        }
+        d[o + c] = src[o + c] + (acc - src[o + c]) * mix;
+      }
+    }
+  }
+  return img;
+}
+
+/**
+ * JPEG-style blocking: per `size`×`size` block and channel, a DCT keeps only the
+ * lowest frequencies (fewer as strength rises), quantizes them and transforms back.
+ * Cost is O(kept frequencies) per pixel, so big blocks at low strength are the slow case.
+ * The block grid starts at the whole image's corner (see `frame`), not the buffer's.
+ */
+export function applyBlockiness(img: PixelBuffer, size: number, strength: number, frame?: Frame): PixelBuffer {
+  const B = Math.max(2, Math.round(size));
+  if (strength <= 0) return img;
+  const s = Math.min(1, strength);
+  const K = Math.max(1, Math.ceil(B * (1 - 0.85 * s)));
+  const { width: W, height: H, data: d } = img;
+
+  // orthonormal DCT-II basis: cos[u * B + x]
+  const cos = new Float32Array(B * B);
+  for (let u = 0; u < B; u++) {
+    const alpha = u === 0 ? Math.sqrt(1 / B) : Math.sqrt(2 / B);
+    for (let x = 0; x < B; x++) cos[u * B + x] = alpha * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * B));
+  }
+  // coarser steps for higher frequencies, like a JPEG quant table
+  const quant = new Float32Array(K * K);
+  for (let v = 0; v < K; v++) {
+    for (let u = 0; u < K; u++) quant[v * K + u] = 1 + s * (12 + 20 * (u + v) * (8 / B));
+  }
+
+  const bx0 = frame ? -mod(-Math.round(frame.x), B) : 0; // first block edge on the buffer, ≤ 0
+  const by0 = frame ? -mod(-Math.round(frame.y), B) : 0;
+
+  const block = new Float32Array(B * B);
+  const rows = new Float32Array(B * K);
+  const coef = new Float32Array(K * K);
+
+  for (let by = by0; by < H; by += B) {
+    for (let bx = bx0; bx < W; bx += B) {
+      for (let c = 0; c < 3; c++) {
+        // edge blocks repeat their last row/column
+        for (let y = 0; y < B; y++) {
+          const row = Math.min(H - 1, Math.max(0, by + y)) * W;
+          for (let x = 0; x < B; x++) block[y * B + x] = d[(row + Math.min(W - 1, Math.max(0, bx + x))) * 4 + c] - 128;
+        }
+        // forward: rows, then columns — low K frequencies only
+        for (let y = 0; y < B; y++) {
+          for (let u = 0; u < K; u++) {
+            let acc = 0;
+            for (let x = 0; x < B; x++) acc += block[y * B + x] * cos[u * B + x];
+            rows[y * K + u] = acc;
+          }
+        }
+        for (let v = 0; v < K; v++) {
+          for (let u = 0; u < K; u++) {
+            let acc = 0;
+            for (let y = 0; y < B; y++) acc += rows[y * K + u] * cos[v * B + y];
+            const q = quant[v * K + u];
+            coef[v * K + u] = Math.round(acc / q) * q;
+          }
+        }
+        // inverse
+        for (let y = 0; y < B; y++) {
+          for (let u = 0; u < K; u++) {
+            let acc = 0;
+            for (let v = 0; v < K; v++) acc += coef[v * K + u] * cos[v * B + y];
+            rows[y * K + u] = acc;
+          }
+        }
+        for (let y = Math.max(0, -by); y < B && by + y < H; y++) {
+          for (let x = Math.max(0, -bx); x < B && bx + x < W; x++) {
+            let acc = 0;
+            for (let u = 0; u < K; u++) acc += rows[y * K + u] * cos[u * B + x];
+            d[((by + y) * W + bx + x) * 4 + c] = acc + 128;
+          }
+        }
+      }
+    }
+  }
+  return img;
+}
+
+function mod(a: number, n: number) {
+  return ((a % n) + n) % n;
+}
@@ -0,0 +1,12 @@
+/**
+ * Starts the render worker, or returns null when the browser can't run it.
+ * Kept in its own module so the bundler-only `import.meta.url` stays out of tests.
+ */
+export function spawnRenderWorker(): Worker | null {
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return null;
+  try {
+    return new Worker(new URL("./render.worker.ts", import.meta.url));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import { Canvas2D, Frame } from "./canvas";
+import { applyWarps, createElement, PlacedElement, warpReach } from "./elements";
+import { DEFAULT_FRY_PARAMS, fry, FryParams, PixelBuffer } from "./fry";
+import { padRegion } from "./render";
+import { blendPixels, defaultStack, duplicatePass, movePass, runStack, StackPass, stackOverlays, stackReach } from "./stack";
+
+// A colorful test card: gradients both ways and a hard-edged square
+function card(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const inside = x > width / 3 && x < (2 * width) / 3 && y > height / 3 && y < (2 * height) / 3;
+      data.set([(x * 255) / width, inside ? 240 : (y * 255) / height, inside ? 30 : 128, 255], i);
+    }
+  }
+  return { data, width, height };
+}
+
+function crop(img: PixelBuffer, r: Frame): PixelBuffer {
+  const data = new Uint8ClampedArray(r.width * r.height * 4);
+  for (let y = 0; y < r.height; y++) {
+    const start = ((r.y + y) * img.width + r.x) * 4;
+    data.set(img.data.subarray(start, start + r.width * 4), y * r.width * 4);
+  }
+  return { data, width: r.width, height: r.height };
+}
+
+// Just enough of a 2D context for the pixel passes
+function pixelContext(img: PixelBuffer) {
+  return {
+    canvas: { width: img.width, height: img.height },
+    getImageData: () => ({ width: img.width, height: img.height, data: img.data.slice() }),
+    putImageData: (out: PixelBuffer) => img.data.set(out.data),
+  } as unknown as Canvas2D;
+}
+
+// The burn-edge glow is drawn on the canvas, outside `fry()`
+const classic = () => defaultStack([]).map((p) => (p.type === "burnEdges" ? { ...p, enabled: false } : p));
+
+test("the classic order ends with the overlays, then the burn edges", () => {
+  const stack = defaultStack([{ type: "scanlines", strength: 0.2 }]);
+  expect(stack.map((p) => p.type).slice(-3)).toEqual(["vhs", "scanlines", "burnEdges"]);
+  expect(stackOverlays(stack)).toEqual([{ type: "scanlines", strength: 0.2 }]);
+});
+
+test("duplicates land right after the original and move on their own", () => {
+  const stack = defaultStack([]);
+  const twice = duplicatePass(stack, stack[0].id);
+  expect(twice.map((p) => p.type).slice(0, 3)).toEqual(["color", "color", "sharpen"]);
+  expect(twice[1].id).not.toBe(twice[0].id);
+  const moved = movePass(twice, twice[1].id, 1);
+  expect(moved.map((p) => p.type).slice(0, 3)).toEqual(["color", "sharpen", "color"]);
+  expect(movePass(moved, moved[0].id, -1)).toBe(moved);
+});
+
+test("blend modes mix the pass result over its input", () => {
+  const base = new Uint8ClampedArray([64, 128, 200, 255]);
+  const run = (mode: Parameters<typeof blendPixels>[2], opacity = 1) => {
+    const top = new Uint8ClampedArray([128, 128, 128, 10]);
+    blendPixels(base, top, mode, opacity);
+    return Array.from(top);
+  };
+  expect(run("normal", 0.5)).toEqual([96, 128, 164, 10]);
+  expect(run("multiply")).toEqual([32, 64, 100, 10]);
+  expect(run("screen")).toEqual([160, 192, 228, 10]);
+  expect(run("overlay")).toEqual([64, 128, 200, 10]);
+});
+
+test("the classic order gives exactly the pixels of fry()", () => {
+  const looks: Partial<FryParams>[] = [
+    {},
+    { brightness: 320, exposureEV: 0.8, burn: 80, posterize: 5, noise: 0.3, noiseMode: "color", seed: 9 },
+    { sharpenAmount: 2, edgeEnhance: 0.4, blockiness: 0.5, blockSize: 4, burn: 100, noise: 0.5 },
+    { chromaShift: 3, chromaAngle: 30, chromaLens: 4, vhsJitter: 0.8, chromaBleed: 0.5, tapeNoise: 0.6, seed: 5 },
+  ];
+  for (const look of looks) {
+    const params = { ...DEFAULT_FRY_PARAMS, ...look };
+    const viaStack = card(24, 16);
+    runStack(pixelContext(viaStack), classic(), params);
+    expect(Array.from(viaStack.data)).toEqual(Array.from(fry(card(24, 16), params).data));
+  }
+});
+
+// A region render the way renderFrame does it: warps, then the stack, on a padded part of the frame
+function renderRegion(region: Frame, W: number, H: number, params: FryParams, passes: StackPass[], elements: PlacedElement[]) {
+  const whole = applyWarps(card(W, H), elements, { x: 0, y: 0, width: W, height: H });
+  runStack(pixelContext(whole), passes, params);
+
+  const padded = padRegion(region, stackReach(passes, params) + warpReach(elements, W, H), W, H);
+  expect(padded.x).toBeGreaterThan(0); // a real margin, not the whole frame
+  const frame = { x: -padded.x, y: -padded.y, width: W, height: H };
+  const part = applyWarps(crop(card(W, H), padded), elements, frame);
+  runStack(pixelContext(part), passes, params, { frame });
+
+  const inPart = { ...region, x: region.x - padded.x, y: region.y - padded.y };
+  return { part: Array.from(crop(part, inPart).data), whole: Array.from(crop(whole, region).data) };
+}
+
+test("a region renders exactly its part of the whole frame", () => {
+  const params: FryParams = {
+    ...DEFAULT_FRY_PARAMS,
+    sharpenAmount: 1.5,
+    edgeEnhance: 0.3,
+    burn: 60,
+    noise: 0.3,
+    noiseMode: "color",
+    blockiness: 0.4,
+    blockSize: 6,
+    chromaShift: 2,
+    chromaLens: 5,
+    vhsJitter: 0.4,
+    chromaBleed: 0.4,
+    tapeNoise: 0.8,
+    seed: 3,
+  };
+  const { part, whole } = renderRegion({ x: 61, y: 47, width: 23, height: 17 }, 150, 110, params, classic(), []);
+  expect(part).toEqual(whole);
+});
+
+test("a region next to a warp samples the warp's real neighbours", () => {
+  const params: FryParams = { ...DEFAULT_FRY_PARAMS, burn: 40 };
+  // a bulge left of the region pulling its pixels from well outside it, and a pinch over its corner
+  const elements: PlacedElement[] = [
+    { ...createElement("warp", 0.4, 0.5), size: 0.36, strength: 0.9 } as PlacedElement,
+    { ...createElement("warp", 0.6, 0.6), size: 0.1, strength: -0.7 } as PlacedElement,
+  ];
+  const { part, whole } = renderRegion({ x: 130, y: 70, width: 23, height: 17 }, 240, 160, params, classic(), elements);
+  expect(part).toEqual(whole);
+});
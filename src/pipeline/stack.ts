@@ -0,0 +1,339 @@
+import { applyChannelShift, applyChromaBleed, applyTapeNoise, applyTrackingJitter } from "./analog";
+import { AnyCanvas, Canvas2D, createCanvas, Frame, get2d } from "./canvas";
+import {
+  applyBloom,
+  applyColorFilter,
+  applyPixelSteps,
+  burnAmount,
+  CSS_BRIGHTNESS_CAP,
+  FryParams,
+  GrainSource,
+  isNeutralColor,
+  PixelBuffer,
+  PixelStep,
+  seededGrain,
+} from "./fry";
+import { drawVignette, drawWarmEdgeBurn, OVERLAYS, OverlaySpec, OverlayType } from "./overlays";
+import { mulberry32, streamSeed } from "./random";
+import { applyBlockiness, applyKernel3x3, applyUnsharpMask, EDGE_KERNEL, EMBOSS_KERNEL } from "./spatial";
+
+/**
+ * Effect stack — the fry as an ordered list of passes.
+ * - Each pass can be switched off, moved, duplicated ("fry twice") and blended back
+ *   over what came before it with its own opacity and blend mode
+ * - Pass settings still come from the sliders; overlay passes carry their own strength
+ * - No stack (null) means the classic order, built from the recipe's overlay list
+ * - Pixel passes run on ImageData, overlays on the canvas; the buffer moves between them only when the kind changes
+ * - Random passes draw from streams named after the pass, so one pass's settings never reseed another
+ * - Passes lay themselves out on the whole image (`frame`); a region render pads itself by `stackReach`,
+ *   so neighbourhood passes see what they would on the whole frame
+ * - Neighbouring unblended per-pixel steps (exposure, burn, posterize, noise) run as one float sweep,
+ *   so the classic order gives exactly the pixels of `fry()`
+ */
+
+export type BlendMode = "normal" | "screen" | "multiply" | "overlay";
+
+export type PassType =
+  | "color"
+  | "sharpen"
+  | "edges"
+  | "emboss"
+  | "exposure"
+  | "burn"
+  | "posterize"
+  | "noise"
+  | "bloom"
+  | "blocks"
+  | "chroma"
+  | "vhs"
+  | OverlayType
+  | "burnEdges";
+
+export interface StackPass {
+  id: string;
+  type: PassType;
+  enabled: boolean;
+  opacity: number; // 0..1
+  blend: BlendMode;
+  strength?: number; // overlay passes only, 0..1
+}
+
+interface StackContext {
+  unit: number; // output px per working px, for sizes given at preview scale
+  frame: Frame; // where the whole image lands on the canvas
+  seed(name: string): number; // the pass's own seed for a named stream ("grain" = the recipe's seed)
+}
+
+interface PassDef {
+  label: string;
+  heavy?: boolean; // skipped while scrubbing
+  step?: PixelStep; // per-pixel step, fused with its unblended neighbours
+  reach?(params: FryParams, unit: number): number; // working px read around each pixel
+  active(params: FryParams, pass: StackPass): boolean;
+  apply?(img: PixelBuffer, params: FryParams, cx: StackContext): void;
+  draw?(ctx: Canvas2D, params: FryParams, pass: StackPass, cx: StackContext): void;
+}
+
+export const PASSES: Record<PassType, PassDef> = {
+  color: { label: "Color", active: (p) => !isNeutralColor(p), apply: (img, p) => applyColorFilter(img, p) },
+  sharpen: {
+    label: "Sharpen",
+    heavy: true,
+    active: (p) => p.sharpenAmount > 0,
+    apply: (img, p, cx) => applyUnsharpMask(img, p.sharpenAmount, p.sharpenRadius * cx.unit, p.sharpenThreshold),
+    reach: (p, unit) => 3 * p.sharpenRadius * unit + 1, // three box blurs of about the radius
+  },
+  edges: {
+    label: "Edges",
+    heavy: true,
+    active: (p) => p.edgeEnhance > 0,
+    apply: (img, p) => applyKernel3x3(img, EDGE_KERNEL, p.edgeEnhance),
+    reach: () => 1,
+  },
+  emboss: {
+    label: "Emboss",
+    heavy: true,
+    active: (p) => p.emboss > 0,
+    apply: (img, p) => applyKernel3x3(img, EMBOSS_KERNEL, p.emboss),
+    reach: () => 1,
+  },
+  exposure: stepPass("Exposure", "exposure", (p) => p.exposureEV !== 0 || p.brightness > CSS_BRIGHTNESS_CAP),
+  burn: stepPass("Burn", "burn", (p) => p.burn > 0),
+  posterize: { ...stepPass("Posterize", "posterize", (p) => p.posterize > 1), heavy: true },
+  noise: { ...stepPass("Noise", "noise", (p) => p.noise > 0), heavy: true },
+  bloom: {
+    label: "Bloom",
+    heavy: true,
+    active: (p) => p.burn > 0,
+    apply: (img, p, cx) => applyBloom(img, 0.35 * burnAmount(p.burn), 0.25, cx.frame),
+    reach: () => 9, // two 4 px cells
+  },
+  blocks: {
+    label: "Blocks",
+    heavy: true,
+    active: (p) => p.blockiness > 0,
+    apply: (img, p, cx) => applyBlockiness(img, p.blockSize * cx.unit, p.blockiness, cx.frame),
+    reach: (p, unit) => Math.max(2, Math.round(p.blockSize * unit)),
+  },
+  chroma: {
+    label: "Chromatic aberration",
+    active: (p) => p.chromaShift > 0 || p.chromaLens > 0,
+    apply: (img, p, cx) => applyChannelShift(img, p.chromaShift * cx.unit, p.chromaAngle, p.chromaLens * cx.unit, 1, cx.frame),
+    reach: (p, unit) => (p.chromaShift + p.chromaLens) * unit + 1,
+  },
+  vhs: {
+    label: "VHS",
+    heavy: true,
+    active: (p) => p.vhsJitter > 0 || p.chromaBleed > 0 || p.tapeNoise > 0,
+    apply(img, p, cx) {
+      applyTrackingJitter(img, p.vhsJitter, mulberry32(cx.seed("jitter")), cx.unit, cx.frame);
+      applyChromaBleed(img, p.chromaBleed, cx.unit);
+      applyTapeNoise(img, p.tapeNoise, mulberry32(cx.seed("tape")), cx.unit, cx.frame);
+    },
+    reach: (p, unit) => (p.vhsJitter * 24 + p.chromaBleed * 14) * unit + 2, // slip, then bleed radius + lag
+  },
+  vignette: overlayPass("vignette"),
+  filmBurn: overlayPass("filmBurn"),
+  scanlines: overlayPass("scanlines"),
+  chromAb: { ...overlayPass("chromAb"), reach: (_p, unit) => 2 * unit + 1 }, // reads the canvas pixels
+  burnEdges: {
+    label: "Burn edges",
+    active: (p) => p.burn > 0,
+    draw(ctx, p, _pass, { frame }) {
+      drawVignette(ctx, frame.width, frame.height, 0.28 * (p.burn / 100)); // stronger edge darken
+      drawWarmEdgeBurn(ctx, frame.width, frame.height, 0.5 * (p.burn / 100)); // warm edge glow
+    },
+  },
+};
+
+export const PASS_TYPES = Object.keys(PASSES) as PassType[];
+
+export const BLEND_MODES: { id: BlendMode; label: string }[] = [
+  { id: "normal", label: "Normal" },
+  { id: "screen", label: "Screen" },
+  { id: "multiply", label: "Multiply" },
+  { id: "overlay", label: "Overlay" },
+];
+
+function stepPass(label: string, step: PixelStep, active: (p: FryParams) => boolean): PassDef {
+  return { label, step, active, apply: (img, p, cx) => applyPixelSteps(img, p, [step], seededGrain(cx.seed("grain")), cx.frame) };
+}
+
+function overlayPass(type: OverlayType): PassDef {
+  return {
+    label: OVERLAYS[type].label,
+    active: (_p, pass) => (pass.strength ?? 0) > 0,
+    draw: (ctx, p, pass, { frame, unit }) => OVERLAYS[type].draw(ctx, frame.width, frame.height, pass.strength ?? 0, unit, p),
+  };
+}
+
+export function isOverlayPass(type: PassType): type is OverlayType {
+  return type in OVERLAYS;
+}
+
+let nextPassId = 1;
+
+export function createPass(type: PassType, strength = 0.5): StackPass {
+  const pass: StackPass = { id: `p${Date.now().toString(36)}${nextPassId++}`, type, enabled: true, opacity: 1, blend: "normal" };
+  if (isOverlayPass(type)) pass.strength = strength;
+  return pass;
+}
+
+/**
+ * The classic fixed order: color → spatial → pixel steps → bloom → blocks → chroma/VHS → overlays → burn edges.
+ * Ids are positional, so the same overlay list always gives the same stack.
+ */
+export function defaultStack(overlays: OverlaySpec[]): StackPass[] {
+  const before: PassType[] = ["color", "sharpen", "edges", "emboss", "exposure", "burn", "posterize", "noise", "bloom", "blocks", "chroma", "vhs"];
+  const passes = [...before.map((t) => createPass(t)), ...overlays.map((o) => createPass(o.type, o.strength)), createPass("burnEdges")];
+  return passes.map((p, i) => ({ ...p, id: `c${i}` }));
+}
+
+/** The overlay passes as a plain overlay list, in stack order. */
+export function stackOverlays(stack: StackPass[]): OverlaySpec[] {
+  const out: OverlaySpec[] = [];
+  for (const p of stack) if (isOverlayPass(p.type)) out.push({ type: p.type, strength: p.strength ?? 0 });
+  return out;
+}
+
+export function movePass(stack: StackPass[], id: string, dir: 1 | -1): StackPass[] {
+  const i = stack.findIndex((p) => p.id === id);
+  const j = i + dir;
+  if (i < 0 || j < 0 || j >= stack.length) return stack;
+  const out = stack.slice();
+  out[i] = stack[j];
+  out[j] = stack[i];
+  return out;
+}
+
+/** Copies a pass in right after itself. */
+export function duplicatePass(stack: StackPass[], id: string): StackPass[] {
+  const i = stack.findIndex((p) => p.id === id);
+  if (i < 0) return stack;
+  const copy = { ...stack[i], id: createPass(stack[i].type).id };
+  return [...stack.slice(0, i + 1), copy, ...stack.slice(i + 1)];
+}
+
+export function removePass(stack: StackPass[], id: string): StackPass[] {
+  return stack.filter((p) => p.id !== id);
+}
+
+export function updatePass(stack: StackPass[], id: string, patch: Partial<Omit<StackPass, "id" | "type">>): StackPass[] {
+  return stack.map((p) => (p.id === id ? { ...p, ...patch } : p));
+}
+
+// Whether a pass does anything at these settings
+function runs(pass: StackPass, params: FryParams, heavy: boolean) {
+  const def = PASSES[pass.type];
+  return pass.enabled && pass.opacity > 0 && (!def.heavy || heavy) && def.active(params, pass);
+}
+
+/**
+ * How far (working px) the passes together read around a pixel: the margin a region render
+ * needs around itself for its pixels to come out as they would on the whole frame.
+ */
+export function stackReach(passes: StackPass[], params: FryParams, options: { heavy?: boolean; unit?: number } = {}) {
+  const { heavy = true, unit = 1 } = options;
+  let reach = 0;
+  for (const pass of passes) {
+    const def = PASSES[pass.type];
+    if (def.reach && runs(pass, params, heavy)) reach += Math.ceil(def.reach(params, unit));
+  }
+  return reach;
+}
+
+/**
+ * Runs `passes` in order over the canvas, in place.
+ * `heavy: false` skips the heavy passes; passes at their no-op settings are skipped too.
+ */
+export function runStack(
+  ctx: Canvas2D,
+  passes: StackPass[],
+  params: FryParams,
+  options: { heavy?: boolean; unit?: number; frame?: Frame } = {}
+) {
+  const { width: W, height: H } = ctx.canvas;
+  const { heavy = true, unit = 1, frame = { x: 0, y: 0, width: W, height: H } } = options;
+  const seen: Partial<Record<PassType, number>> = {};
+
+  let img: ImageData | null = null; // pixels pulled off the canvas, put back before the next canvas pass
+  let steps: PixelStep[] = []; // unblended per-pixel steps waiting to run as one sweep
+  let grain: GrainSource | undefined;
+  const runSteps = () => {
+    if (steps.length) applyPixelSteps(img!, params, steps, grain, frame);
+    steps = [];
+    grain = undefined;
+  };
+  for (const pass of passes) {
+    const def = PASSES[pass.type];
+    if (!runs(pass, params, heavy)) continue;
+    const blended = pass.opacity < 1 || pass.blend !== "normal";
+    // the first pass of a type keeps the plain stream (the recipe's own seed for grain), copies get their own
+    const nth = (seen[pass.type] = (seen[pass.type] ?? -1) + 1);
+    const cx: StackContext = {
+      unit,
+      frame,
+      seed: (name) => (!nth && name === "grain" ? params.seed : streamSeed(params.seed, nth ? `${name}${nth}` : name)),
+    };
+
+    if (def.step && !blended) {
+      if (!img) img = ctx.getImageData(0, 0, W, H);
+      if (def.step === "noise") {
+        if (grain) runSteps(); // one grain per sweep, so a copied Noise pass adds its own
+        grain = seededGrain(cx.seed("grain"));
+      }
+      steps.push(def.step);
+      continue;
+    }
+    runSteps();
+    if (def.apply) {
+      if (!img) img = ctx.getImageData(0, 0, W, H);
+      const base = blended ? img.data.slice() : null;
+      def.apply(img, params, cx);
+      if (base) blendPixels(base, img.data, pass.blend, pass.opacity);
+      continue;
+    }
+
+    if (img) {
+      ctx.putImageData(img, 0, 0);
+      img = null;
+    }
+    let target = ctx;
+    let layer: AnyCanvas | null = null;
+    if (blended) {
+      layer = createCanvas(W, H);
+      target = get2d(layer);
+      target.drawImage(ctx.canvas, 0, 0);
+    }
+    target.save();
+    target.translate(frame.x, frame.y);
+    def.draw!(target, params, pass, cx);
+    target.restore();
+    if (layer) {
+      ctx.save();
+      ctx.globalAlpha = pass.opacity;
+      ctx.globalCompositeOperation = pass.blend === "normal" ? "source-over" : pass.blend;
+      ctx.drawImage(layer, 0, 0);
+      ctx.restore();
+    }
+  }
+  runSteps();
+  if (img) ctx.putImageData(img, 0, 0);
+}
+
+/**
+ * Blends a pass result (`top`, written back in place) over the pixels it started from.
+ * Same formulas as the canvas composite modes of the same names.
+ */
+export function blendPixels(base: Uint8ClampedArray, top: Uint8ClampedArray, mode: BlendMode, opacity: number) {
+  for (let i = 0; i < top.length; i++) {
+    if ((i & 3) === 3) continue; // alpha stays
+    const a = base[i];
+    const b = top[i];
+    let v = b;
+    if (mode === "screen") v = 255 - ((255 - a) * (255 - b)) / 255;
+    else if (mode === "multiply") v = (a * b) / 255;
+    else if (mode === "overlay") v = a < 128 ? (2 * a * b) / 255 : 255 - (2 * (255 - a) * (255 - b)) / 255;
+    top[i] = a + (v - a) * opacity;
+  }
+}
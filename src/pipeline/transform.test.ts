@@ -0,0 +1,61 @@
+import {
+  cropFromCorners,
+  exifTransform,
+  fitCropAspect,
+  flipTransform,
+  FULL_CROP,
+  IDENTITY_TRANSFORM,
+  ImageTransform,
+  rotateTransform,
+  transformedSize,
+} from "./transform";
+
+// Where an image-relative point of the source ends up after rotate + flip
+function mapPoint(t: ImageTransform, x: number, y: number) {
+  let p = { x, y };
+  for (let r = 0; r < t.rotate; r += 90) p = { x: 1 - p.y, y: p.x };
+  if (t.flipH) p = { x: 1 - p.x, y: p.y };
+  if (t.flipV) p = { x: p.x, y: 1 - p.y };
+  return p;
+}
+
+test("four quarter turns (and two flips) come back to the start", () => {
+  const t: ImageTransform = { rotate: 0, flipH: true, flipV: false, crop: { x: 0.125, y: 0.25, w: 0.25, h: 0.5 } }; // exact in binary
+  let r = t;
+  for (let i = 0; i < 4; i++) r = rotateTransform(r, 1);
+  expect(r).toEqual(t);
+  expect(rotateTransform(rotateTransform(t, 1), -1)).toEqual(t);
+  expect(flipTransform(flipTransform(t, "h"), "h")).toEqual(t);
+});
+
+test("rotating the picture moves the crop with it", () => {
+  const t = { ...IDENTITY_TRANSFORM, crop: { x: 0, y: 0, w: 0.5, h: 0.25 } }; // top-left strip
+  const r = rotateTransform(t, 1);
+  expect(r.crop).toEqual({ x: 0.75, y: 0, w: 0.25, h: 0.5 }); // now top-right
+  expect(transformedSize(400, 200, r)).toEqual({ width: 50, height: 200 });
+});
+
+test("a turn after a flip matches the flipped picture turned", () => {
+  const t = rotateTransform(flipTransform(IDENTITY_TRANSFORM, "h"), 1);
+  // flip then turn, applied by hand
+  const p = mapPoint({ ...IDENTITY_TRANSFORM, flipH: true }, 0.2, 0.1);
+  expect(mapPoint(t, 0.2, 0.1)).toEqual({ x: 1 - p.y, y: p.x });
+});
+
+test("EXIF orientations map to distinct rotate + flip pairs", () => {
+  const corners = [1, 2, 3, 4, 5, 6, 7, 8].map((o) => JSON.stringify(mapPoint(exifTransform(o), 0, 0.25)));
+  expect(new Set(corners).size).toBe(8);
+  // 6: stored rotated left, shown turned right
+  expect(exifTransform(6)).toEqual({ ...IDENTITY_TRANSFORM, rotate: 90 });
+});
+
+test("aspect presets are in pixels, not relative units", () => {
+  const c = fitCropAspect(FULL_CROP, 1, 400, 200);
+  expect(c.w * 400).toBeCloseTo(c.h * 200);
+  expect(c.h).toBe(1);
+  expect(c.x).toBeCloseTo(0.25);
+
+  const dragged = cropFromCorners(0.5, 0.5, 0.9, 0.55, 9 / 16, 1000, 1000);
+  expect((dragged.w * 1000) / (dragged.h * 1000)).toBeCloseTo(9 / 16);
+  expect(dragged.y + dragged.h).toBeLessThanOrEqual(1);
+});
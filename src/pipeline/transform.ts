@@ -0,0 +1,143 @@
+import { AnyCanvas, createCanvas, get2d } from "./canvas";
+
+/**
+ * Source transform — the import stage ahead of the fry pipeline.
+ * - Clockwise quarter turns, then flips as seen on screen, then a crop
+ * - The crop is relative (0..1) to the rotated, flipped image, so it holds at any resolution
+ * - EXIF orientations map onto the same rotate + flip pair
+ */
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface CropRect {
+  x: number; // 0..1 of the rotated width
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface ImageTransform {
+  rotate: Rotation;
+  flipH: boolean;
+  flipV: boolean;
+  crop: CropRect | null;
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotate: 0, flipH: false, flipV: false, crop: null };
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, w: 1, h: 1 };
+
+export const CROP_ASPECTS: { id: string; label: string; ratio: number | null }[] = [
+  { id: "free", label: "Free", ratio: null },
+  { id: "1:1", label: "1:1", ratio: 1 },
+  { id: "4:5", label: "4:5", ratio: 4 / 5 },
+  { id: "9:16", label: "9:16", ratio: 9 / 16 },
+];
+
+// Smallest crop side, relative, so a stray tap can't make an empty image
+const MIN_CROP = 0.02;
+
+export function isIdentityTransform(t: ImageTransform) {
+  return t.rotate === 0 && !t.flipH && !t.flipV && !t.crop;
+}
+
+/** Size after rotation, before the crop. */
+export function orientedSize(width: number, height: number, t: ImageTransform) {
+  return t.rotate % 180 ? { width: height, height: width } : { width, height };
+}
+
+/** Size of the transformed image in source pixels. */
+export function transformedSize(width: number, height: number, t: ImageTransform) {
+  const o = orientedSize(width, height, t);
+  const c = t.crop ?? FULL_CROP;
+  return { width: Math.max(1, Math.round(o.width * c.w)), height: Math.max(1, Math.round(o.height * c.h)) };
+}
+
+/** Rotates the picture a quarter turn (clockwise for 1, counter-clockwise for -1); flips and crop turn with it. */
+export function rotateTransform(t: ImageTransform, dir: 1 | -1): ImageTransform {
+  const c = t.crop;
+  const crop = c && (dir === 1 ? { x: 1 - c.y - c.h, y: c.x, w: c.h, h: c.w } : { x: c.y, y: 1 - c.x - c.w, w: c.h, h: c.w });
+  // a flip followed by a quarter turn is the other flip before it
+  return { rotate: ((t.rotate + dir * 90 + 360) % 360) as Rotation, flipH: t.flipV, flipV: t.flipH, crop };
+}
+
+export function flipTransform(t: ImageTransform, axis: "h" | "v"): ImageTransform {
+  const c = t.crop;
+  if (axis === "h") return { ...t, flipH: !t.flipH, crop: c && { ...c, x: 1 - c.x - c.w } };
+  return { ...t, flipV: !t.flipV, crop: c && { ...c, y: 1 - c.y - c.h } };
+}
+
+/** The rotate + flip that puts an image with this EXIF orientation (1..8) upright. */
+export function exifTransform(orientation: number): ImageTransform {
+  const table: Record<number, Partial<ImageTransform>> = {
+    2: { flipH: true },
+    3: { rotate: 180 },
+    4: { flipV: true },
+    5: { rotate: 90, flipH: true }, // transpose
+    6: { rotate: 90 },
+    7: { rotate: 90, flipV: true }, // transverse
+    8: { rotate: 270 },
+  };
+  return { ...IDENTITY_TRANSFORM, ...table[orientation] };
+}
+
+/** Draws the transformed source into a new canvas at source resolution. */
+export function applyTransform(source: CanvasImageSource, t: ImageTransform): AnyCanvas {
+  const { width: sw, height: sh } = source as { width: number; height: number };
+  const o = orientedSize(sw, sh, t);
+  const c = t.crop ?? FULL_CROP;
+  const { width, height } = transformedSize(sw, sh, t);
+  const canvas = createCanvas(width, height);
+  const ctx = get2d(canvas);
+  ctx.translate(-c.x * o.width, -c.y * o.height);
+  ctx.translate(o.width / 2, o.height / 2);
+  ctx.scale(t.flipH ? -1 : 1, t.flipV ? -1 : 1);
+  ctx.rotate((t.rotate * Math.PI) / 180);
+  ctx.drawImage(source, -sw / 2, -sh / 2);
+  return canvas;
+}
+
+/** Largest crop of the given pixel aspect (w / h) centred on `c`, inside the image. */
+export function fitCropAspect(c: CropRect, ratio: number | null, width: number, height: number): CropRect {
+  if (!ratio) return c;
+  const rel = ratio * (height / width); // aspect in relative units
+  let w = c.w;
+  let h = w / rel;
+  if (h > c.h) {
+    h = c.h;
+    w = h * rel;
+  }
+  const cx = c.x + c.w / 2;
+  const cy = c.y + c.h / 2;
+  return clampCrop({ x: cx - w / 2, y: cy - h / 2, w, h });
+}
+
+/**
+ * Crop dragged from a fixed corner to point (x, y), all relative.
+ * With a ratio the far corner follows whichever axis the pointer moved further along.
+ */
+export function cropFromCorners(ax: number, ay: number, x: number, y: number, ratio: number | null, width: number, height: number): CropRect {
+  const px = Math.max(0, Math.min(1, x));
+  const py = Math.max(0, Math.min(1, y));
+  let w = Math.max(MIN_CROP, Math.abs(px - ax));
+  let h = Math.max(MIN_CROP, Math.abs(py - ay));
+  if (ratio) {
+    const rel = ratio * (height / width);
+    if (w / h > rel) h = w / rel;
+    else w = h * rel;
+    // keep the far corner inside the image
+    const maxW = px < ax ? ax : 1 - ax;
+    const maxH = py < ay ? ay : 1 - ay;
+    const k = Math.min(1, maxW / w, maxH / h);
+    w *= k;
+    h *= k;
+  }
+  return { x: px < ax ? ax - w : ax, y: py < ay ? ay - h : ay, w, h };
+}
+
+/** Same size, moved back inside the image; shrunk only if it can't fit. */
+export function clampCrop(c: CropRect): CropRect {
+  const w = Math.max(MIN_CROP, Math.min(1, c.w));
+  const h = Math.max(MIN_CROP, Math.min(1, c.h));
+  return { x: Math.max(0, Math.min(1 - w, c.x)), y: Math.max(0, Math.min(1 - h, c.y)), w, h };
+}
@@ -3,3 +3,6 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// the render worker is bundler-only (import.meta.url) and jsdom has no Worker
+jest.mock('./pipeline/spawnRenderWorker');
@@ -0,0 +1,21 @@
+import { parsePresets, Preset, serializePresets } from "../pipeline/presets";
+
+// localStorage persistence for user presets
+const KEY = "deepfry.presets";
+
+export function loadUserPresets(): Preset[] {
+  try {
+    const text = localStorage.getItem(KEY);
+    return text ? parsePresets(text) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(KEY, serializePresets(presets));
+  } catch {
+    // storage full or disabled — presets just won't persist
+  }
+}
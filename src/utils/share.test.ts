@@ -0,0 +1,15 @@
+import { pastedImages } from "./share";
+
+const png = new File(["x"], "shot.png", { type: "image/png" });
+const txt = new File(["x"], "notes.txt", { type: "text/plain" });
+
+test("pasted images come from the file list, or from file items when the list is empty", () => {
+  expect(pastedImages(null)).toEqual([]);
+  expect(pastedImages({ files: [png, txt], items: [] } as any)).toEqual([png]);
+  const items = [
+    { kind: "string", getAsFile: () => null },
+    { kind: "file", getAsFile: () => png },
+    { kind: "file", getAsFile: () => txt },
+  ];
+  expect(pastedImages({ files: [], items } as any)).toEqual([png]);
+});
@@ -0,0 +1,55 @@
+/**
+ * Pictures in and out through the system, besides the file picker and downloads.
+ * - Paste: image files out of a clipboard paste
+ * - Copy: a PNG onto the clipboard
+ * - Share: a file through the Web Share API (mobile share sheets)
+ * - Each `can…` check lets the caller fall back to a download when the browser can't
+ */
+
+// Enough of DataTransfer to read pasted files from
+type PastedData = Pick<DataTransfer, "files" | "items">;
+
+export function pastedImages(data: PastedData | null): File[] {
+  if (!data) return [];
+  let files = Array.from(data.files ?? []);
+  // some browsers only list pasted screenshots as items
+  if (!files.length && data.items) {
+    files = Array.from(data.items)
+      .filter((it) => it.kind === "file")
+      .map((it) => it.getAsFile())
+      .filter((f): f is File => !!f);
+  }
+  return files.filter((f) => f.type.startsWith("image/"));
+}
+
+export function canCopyImage() {
+  return typeof ClipboardItem !== "undefined" && !!navigator.clipboard?.write;
+}
+
+/**
+ * Puts a PNG on the clipboard. Takes the blob as a promise so the clipboard item is made
+ * inside the click (Safari drops the permission once the handler has awaited anything).
+ */
+export async function copyImage(png: Promise<Blob>) {
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+}
+
+export function canShareFiles() {
+  if (typeof navigator.share !== "function" || typeof navigator.canShare !== "function") return false;
+  try {
+    return navigator.canShare({ files: [new File([], "probe.png", { type: "image/png" })] });
+  } catch {
+    return false;
+  }
+}
+
+/** Opens the share sheet; false when the user dismissed it. */
+export async function shareFile(file: File, title: string) {
+  try {
+    await navigator.share({ files: [file], title });
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") return false;
+    throw err;
+  }
+}
@@ -0,0 +1,42 @@
+import { actualPixelsZoom, clampView, FIT_VIEW, panBy, viewRect, zoomAt, zoomFrame } from "./viewport";
+
+const box = { width: 800, height: 600 };
+const image = { width: 4000, height: 3000 };
+
+test("fit shows the whole image", () => {
+  expect(viewRect(FIT_VIEW, box, image)).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+});
+
+test("100% shows one image pixel per device pixel", () => {
+  const zoom = actualPixelsZoom(box, image, 2);
+  expect(zoom).toBe(2.5);
+  const r = viewRect({ zoom, cx: 0.5, cy: 0.5 }, box, image);
+  // 800 CSS px × dpr 2 = 1600 device px = 1600 image px across
+  expect(r.w * image.width).toBeCloseTo(1600);
+});
+
+test("zooming keeps the anchored image point under the cursor", () => {
+  const view = zoomAt(FIT_VIEW, 4, { dx: 200, dy: -100 }, box, image);
+  // the point 200px right of center was at image x = 0.5 + 200/800
+  const r = viewRect(view, box, image);
+  const s = (800 / 4000) * view.zoom;
+  expect(view.cx + 200 / (s * image.width)).toBeCloseTo(0.75);
+  expect(r.x).toBeGreaterThan(0);
+});
+
+test("panning stops at the image edges", () => {
+  const zoomed = { zoom: 4, cx: 0.5, cy: 0.5 };
+  const far = panBy(zoomed, 100000, 0, box, image);
+  expect(viewRect(far, box, image).x).toBe(0);
+  expect(clampView({ zoom: 0.2, cx: 3, cy: -1 }, box, image)).toEqual(FIT_VIEW);
+});
+
+test("zoomed frames cover only the visible window at device resolution", () => {
+  expect(zoomFrame(FIT_VIEW, box, image, 2)).toBeNull();
+  const f = zoomFrame({ zoom: 2, cx: 0.5, cy: 0.5 }, box, image, 2)!;
+  // 0.2 CSS px per image px × 2 zoom × dpr 2 → 0.8 render px per image px
+  expect(f.width).toBe(3200);
+  expect(f.region).toEqual({ x: 800, y: 600, width: 1600, height: 1200 });
+  // past 100% the frame stops growing; the browser scales it up
+  expect(zoomFrame({ zoom: 20, cx: 0, cy: 0 }, box, image, 2)!.width).toBe(4000);
+});
@@ -0,0 +1,110 @@
+/**
+ * Zoom/pan math for the preview.
+ * - A view is a zoom factor over "fit" plus the image point at the center (0..1)
+ * - Everything is in CSS px of the preview box and image-relative coords, no DOM
+ */
+
+export interface View {
+  zoom: number; // 1 = whole image fits the box
+  cx: number; // visible center, 0..1 of width
+  cy: number; // 0..1 of height
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+/** Visible part of the image, image-relative. */
+export interface ViewRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const FIT_VIEW: View = { zoom: 1, cx: 0.5, cy: 0.5 };
+export const MAX_ZOOM = 32;
+
+/** CSS px per image px when the image fits the box. */
+export function fitScale(box: Size, image: Size) {
+  return Math.min(box.width / image.width, box.height / image.height);
+}
+
+/** Zoom at which one image pixel lands on one device pixel. */
+export function actualPixelsZoom(box: Size, image: Size, dpr: number) {
+  return 1 / (dpr * fitScale(box, image));
+}
+
+export function viewRect(view: View, box: Size, image: Size): ViewRect {
+  const s = fitScale(box, image) * view.zoom;
+  const w = Math.min(1, box.width / (s * image.width));
+  const h = Math.min(1, box.height / (s * image.height));
+  const cx = Math.min(1 - w / 2, Math.max(w / 2, view.cx));
+  const cy = Math.min(1 - h / 2, Math.max(h / 2, view.cy));
+  return { x: cx - w / 2, y: cy - h / 2, w, h };
+}
+
+/** Same view with zoom limited and the center pulled back inside the image. */
+export function clampView(view: View, box: Size, image: Size): View {
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, view.zoom));
+  const r = viewRect({ ...view, zoom }, box, image);
+  return { zoom, cx: r.x + r.w / 2, cy: r.y + r.h / 2 };
+}
+
+/**
+ * Zooms by `factor` keeping the image point under `anchor` still.
+ * `anchor` is in CSS px from the center of the box.
+ */
+export function zoomAt(view: View, factor: number, anchor: { dx: number; dy: number }, box: Size, image: Size): View {
+  const from = clampView(view, box, image);
+  const s0 = fitScale(box, image) * from.zoom;
+  const ax = from.cx + anchor.dx / (s0 * image.width);
+  const ay = from.cy + anchor.dy / (s0 * image.height);
+  const zoom = Math.min(MAX_ZOOM, Math.max(1, from.zoom * factor));
+  const s1 = fitScale(box, image) * zoom;
+  return clampView({ zoom, cx: ax - anchor.dx / (s1 * image.width), cy: ay - anchor.dy / (s1 * image.height) }, box, image);
+}
+
+/** Moves the view so the image follows a drag of (dx, dy) CSS px. */
+export function panBy(view: View, dx: number, dy: number, box: Size, image: Size): View {
+  const s = fitScale(box, image) * view.zoom;
+  return clampView({ ...view, cx: view.cx - dx / (s * image.width), cy: view.cy - dy / (s * image.height) }, box, image);
+}
+
+/** Where a zoomed view renders: a whole frame of `width` × `height` render px, of which only `region` is drawn. */
+export interface ZoomFrame {
+  width: number;
+  height: number;
+  region: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * Frame for a zoomed-in view: one render px per device px (capped at the source resolution,
+ * never coarser than `minScale` render px per image px). Null at fit, where the whole frame is drawn.
+ */
+export function zoomFrame(view: View, box: Size, image: Size, dpr: number, minScale = 0): ZoomFrame | null {
+  if (view.zoom <= 1) return null;
+  const r = viewRect(view, box, image);
+  const scale = Math.max(minScale, Math.min(1, fitScale(box, image) * view.zoom * dpr));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const x = Math.floor(r.x * width);
+  const y = Math.floor(r.y * height);
+  return {
+    width,
+    height,
+    region: {
+      x,
+      y,
+      width: Math.max(1, Math.min(width - x, Math.ceil((r.x + r.w) * width) - x)),
+      height: Math.max(1, Math.min(height - y, Math.ceil((r.y + r.h) * height) - y)),
+    },
+  };
+}
+
+/** The preview's frame for this view: the zoomed window, or the whole `outW` × `outH` preview at fit. */
+export function previewFrame(view: View, box: Size | null, image: Size, dpr: number, outW: number, outH: number): ZoomFrame {
+  const zoomed = box && zoomFrame(view, box, image, dpr, outW / image.width);
+  return zoomed ?? { width: outW, height: outH, region: { x: 0, y: 0, width: outW, height: outH } };
+}
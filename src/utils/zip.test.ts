@@ -0,0 +1,29 @@
+/**
+ * @jest-environment node
+ */
+import { crc32, createZip } from "./zip";
+
+const bytes = (s: string) => new TextEncoder().encode(s);
+
+test("crc32 matches the reference value", () => {
+  expect(crc32(bytes("hello"))).toBe(0x3610a686);
+  expect(crc32(new Uint8Array(0))).toBe(0);
+});
+
+test("zip has local headers, stored data and a central directory", () => {
+  const zip = createZip([
+    { name: "a.txt", data: bytes("hello"), date: new Date(2025, 0, 2, 3, 4, 6) },
+    { name: "ünï.jpg", data: bytes("xyz") },
+  ]);
+  const view = new DataView(zip.buffer);
+  expect(view.getUint32(0, true)).toBe(0x04034b50);
+  expect(new TextDecoder().decode(zip.slice(30, 35))).toBe("a.txt");
+  expect(new TextDecoder().decode(zip.slice(35, 40))).toBe("hello");
+
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  expect(view.getUint16(end + 10, true)).toBe(2);
+  const cdOffset = view.getUint32(end + 16, true);
+  expect(view.getUint32(cdOffset, true)).toBe(0x02014b50);
+  expect(view.getUint32(cdOffset + 16, true)).toBe(0x3610a686);
+});